@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "stationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "KitchenStation" (
+    "id" SERIAL NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "categories" TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KitchenStation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KitchenStation_businessId_name_key" ON "KitchenStation"("businessId", "name");
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "KitchenStation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KitchenStation" ADD CONSTRAINT "KitchenStation_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
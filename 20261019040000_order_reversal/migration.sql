@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "subtotal" DOUBLE PRECISION,
+ADD COLUMN "pointsRedeemed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "pointsEarned" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "order_status_history" ADD COLUMN "reasonCode" TEXT;
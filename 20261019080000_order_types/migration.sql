@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "orderType" TEXT NOT NULL DEFAULT 'dine-in',
+ADD COLUMN "contactName" TEXT,
+ADD COLUMN "contactPhone" TEXT,
+ADD COLUMN "deliveryAddress" TEXT,
+ADD COLUMN "packagingCharge" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "deliveryFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ALTER COLUMN "tableNumber" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "OrderTypeSetting" (
+    "id" SERIAL NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "orderType" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "packagingCharge" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "deliveryFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "OrderTypeSetting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderTypeSetting_businessId_orderType_key" ON "OrderTypeSetting"("businessId", "orderType");
+
+-- AddForeignKey
+ALTER TABLE "OrderTypeSetting" ADD CONSTRAINT "OrderTypeSetting_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
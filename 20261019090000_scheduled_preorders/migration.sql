@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN "preorderSlotMinutes" INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN "preorderSlotCapacity" INTEGER,
+ADD COLUMN "preorderLeadMinutes" INTEGER NOT NULL DEFAULT 30;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "scheduledFor" TIMESTAMP(3),
+ADD COLUMN "releasedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "order_slots" (
+    "id" SERIAL NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "slotStart" TIMESTAMP(3) NOT NULL,
+    "booked" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "order_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "orders_businessId_scheduledFor_idx" ON "orders"("businessId", "scheduledFor");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_slots_businessId_slotStart_key" ON "order_slots"("businessId", "slotStart");
+
+-- AddForeignKey
+ALTER TABLE "order_slots" ADD CONSTRAINT "order_slots_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "serviceDate" TEXT,
+ADD COLUMN "dailyNumber" INTEGER;
+
+-- CreateTable
+CREATE TABLE "daily_order_counters" (
+    "id" SERIAL NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "serviceDate" TEXT NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "daily_order_counters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_businessId_serviceDate_dailyNumber_key" ON "orders"("businessId", "serviceDate", "dailyNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_order_counters_businessId_serviceDate_key" ON "daily_order_counters"("businessId", "serviceDate");
+
+-- AddForeignKey
+ALTER TABLE "daily_order_counters" ADD CONSTRAINT "daily_order_counters_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
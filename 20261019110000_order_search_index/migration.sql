@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "orders_businessId_createdAt_idx" ON "orders"("businessId", "createdAt");
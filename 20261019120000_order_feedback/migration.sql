@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "order_feedback" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "customerId" INTEGER,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT,
+    "isFlagged" BOOLEAN NOT NULL DEFAULT false,
+    "followedUpAt" TIMESTAMP(3),
+    "followUpNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "item_ratings" (
+    "id" SERIAL NOT NULL,
+    "feedbackId" INTEGER NOT NULL,
+    "orderItemId" INTEGER NOT NULL,
+    "productId" INTEGER NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT,
+
+    CONSTRAINT "item_ratings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_feedback_orderId_key" ON "order_feedback"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_feedback_businessId_createdAt_idx" ON "order_feedback"("businessId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "item_ratings_orderItemId_key" ON "item_ratings"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "order_feedback" ADD CONSTRAINT "order_feedback_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_feedback" ADD CONSTRAINT "order_feedback_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_feedback" ADD CONSTRAINT "order_feedback_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "item_ratings" ADD CONSTRAINT "item_ratings_feedbackId_fkey" FOREIGN KEY ("feedbackId") REFERENCES "order_feedback"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "item_ratings" ADD CONSTRAINT "item_ratings_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "item_ratings" ADD CONSTRAINT "item_ratings_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
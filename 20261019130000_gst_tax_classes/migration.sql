@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN "gstin" TEXT,
+ADD COLUMN "stateCode" TEXT,
+ADD COLUMN "serviceChargeRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "taxClassId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "taxClassId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "subtotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "serviceChargeRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "taxableValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "cgst" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "sgst" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "igst" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "roundOff" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "grandTotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "isInterState" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "placeOfSupply" TEXT,
+ADD COLUMN "customerGstin" TEXT,
+ADD COLUMN "taxLines" JSONB,
+ADD COLUMN "taxRates" JSONB;
+
+-- CreateTable
+CREATE TABLE "TaxClass" (
+    "id" SERIAL NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "hsnCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxClass_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxClass_businessId_name_key" ON "TaxClass"("businessId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_taxClassId_fkey" FOREIGN KEY ("taxClassId") REFERENCES "TaxClass"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_taxClassId_fkey" FOREIGN KEY ("taxClassId") REFERENCES "TaxClass"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaxClass" ADD CONSTRAINT "TaxClass_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN "invoicePrefix" TEXT;
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "invoiceNumber" TEXT,
+ADD COLUMN "financialYear" TEXT,
+ADD COLUMN "invoiceSequence" INTEGER,
+ADD COLUMN "issuedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "invoice_counters" (
+    "id" SERIAL NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "series" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "invoice_counters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bills_businessId_invoiceNumber_key" ON "bills"("businessId", "invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_counters_businessId_series_financialYear_key" ON "invoice_counters"("businessId", "series", "financialYear");
+
+-- AddForeignKey
+ALTER TABLE "invoice_counters" ADD CONSTRAINT "invoice_counters_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
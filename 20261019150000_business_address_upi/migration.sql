@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN "address" TEXT,
+ADD COLUMN "upiId" TEXT;
@@ -0,0 +1,13 @@
+-- DropIndex
+DROP INDEX "bills_orderId_key";
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "splitType" TEXT,
+ADD COLUMN "splitIndex" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "splitCount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "status" TEXT NOT NULL DEFAULT 'Open',
+ADD COLUMN "paymentMethod" TEXT,
+ADD COLUMN "paidAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bills_orderId_splitIndex_key" ON "bills"("orderId", "splitIndex");
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "tipAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" SERIAL NOT NULL,
+    "billId" INTEGER NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "tender" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "tendered" DOUBLE PRECISION,
+    "changeDue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tip" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "reference" TEXT,
+    "points" INTEGER,
+    "receivedBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_billId_idx" ON "payments"("billId");
+
+-- CreateIndex
+CREATE INDEX "payments_businessId_createdAt_idx" ON "payments"("businessId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
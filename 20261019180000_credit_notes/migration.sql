@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "credit_notes" (
+    "id" SERIAL NOT NULL,
+    "billId" INTEGER NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "creditNoteNumber" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "type" TEXT NOT NULL,
+    "reasonCode" TEXT NOT NULL,
+    "note" TEXT,
+    "taxableValue" DOUBLE PRECISION NOT NULL,
+    "cgst" DOUBLE PRECISION NOT NULL,
+    "sgst" DOUBLE PRECISION NOT NULL,
+    "igst" DOUBLE PRECISION NOT NULL,
+    "roundOff" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total" DOUBLE PRECISION NOT NULL,
+    "taxLines" JSONB NOT NULL,
+    "refundTender" TEXT NOT NULL,
+    "refundReference" TEXT,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "pointsReversed" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_notes_businessId_creditNoteNumber_key" ON "credit_notes"("businessId", "creditNoteNumber");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_billId_idx" ON "credit_notes"("billId");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_businessId_issuedAt_idx" ON "credit_notes"("businessId", "issuedAt");
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "shifts" (
+    "id" SERIAL NOT NULL,
+    "businessId" INTEGER NOT NULL,
+    "isOpen" BOOLEAN DEFAULT true,
+    "zNumber" INTEGER,
+    "openedBy" INTEGER,
+    "closedBy" INTEGER,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "openingFloat" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "countedCash" JSONB,
+    "note" TEXT,
+    "zReport" JSONB,
+
+    CONSTRAINT "shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shifts_businessId_isOpen_key" ON "shifts"("businessId", "isOpen");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shifts_businessId_zNumber_key" ON "shifts"("businessId", "zNumber");
+
+-- CreateIndex
+CREATE INDEX "shifts_businessId_openedAt_idx" ON "shifts"("businessId", "openedAt");
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_businessId_fkey" FOREIGN KEY ("businessId") REFERENCES "Business"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
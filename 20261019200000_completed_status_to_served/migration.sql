@@ -0,0 +1,5 @@
+-- Older kitchen screens marked finished orders and items "Completed", which
+-- the order lifecycle calls "Served"
+UPDATE "orders" SET "status" = 'Served' WHERE "status" = 'Completed';
+
+UPDATE "order_items" SET "status" = 'Served' WHERE "status" = 'Completed';
@@ -75,3 +75,31 @@ export function authenticateCustomerJWT(
     res.status(403).json({ error: "Invalid or expired token" });
   }
 }
+
+// Same customer token as above, but guests without one are let through.
+// An invalid token is ignored rather than rejected.
+export function optionalCustomerJWT(
+  req: CustomerRequest,
+  _res: Response,
+  next: NextFunction
+): void {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader?.startsWith("Bearer ")) {
+    try {
+      const secret = process.env.JWT_SECRET || "your-secret-key";
+      const payload = jwt.verify(
+        authHeader.split(" ")[1],
+        secret
+      ) as Partial<CustomerPayload>;
+      // Staff tokens verify too but carry no customerId
+      if (payload.customerId && payload.businessId) {
+        req.customer = payload as CustomerPayload;
+      }
+    } catch (error) {
+      console.warn("🟡 Customer JWT verification failed — continuing as guest");
+    }
+  }
+
+  next();
+}
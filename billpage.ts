@@ -4,17 +4,50 @@ import {
   authenticateBusinessOwnerJWT,
   BusinessOwnerRequest,
 } from "../middleware/authenticateJWT";
+import { authorizeRoles } from "../middleware/authorizeRoles";
+import {
+  InvalidStatusTransitionError,
+  parseOrderStatus,
+  staffActor,
+  transitionOrder,
+} from "../utils/orderStatus";
+import { publishOrderStatusChange } from "../utils/orderEvents";
+import { orderRefFields, parseOrderRef } from "../utils/orderRefs";
+import { searchOrders } from "../utils/orderSearch";
+import { billTaxData, computeOrderTax } from "../utils/taxEngine";
+import { InvoiceImmutableError } from "../utils/invoiceNumbers";
+import { BillError, issueBills, payBill } from "../utils/bills";
+import { billBalance, paymentView } from "../utils/payments";
+import { RefundError, refundBill } from "../utils/refunds";
+import {
+  cancelOrder,
+  OrderReversalError,
+  parseReason,
+} from "../utils/orderReversal";
+import { roundMoney } from "../utils/orderPricing";
+import { InvoiceDocument, loadInvoiceDocument } from "../utils/invoiceDocument";
+import { renderInvoicePdf } from "../utils/invoicePdf";
+import {
+  RECEIPT_COLUMNS,
+  ReceiptWidth,
+  renderEscPosReceipt,
+} from "../utils/escposReceipt";
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Create Bill
+// Create the order's bill, or split bills, each with its own invoice number
+// Body: { orderId, customer_gstin?, place_of_supply?, service_charge?: false,
+//   split?: { type: "items", items: [[12, 13], [14]] }
+//         | { type: "even", ways: 3 }
+//         | { type: "amounts", amounts: [500, 300] } }
+// Taxes are worked out here from the order and stored on the bills
 router.post(
   "/bill",
   authenticateBusinessOwnerJWT,
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const { orderId, taxRates } = req.body;
+      const orderId = parseOrderRef(req.body.orderId);
       const businessId = req.businessOwner?.businessId;
 
       const order = await prisma.order.findUnique({ where: { id: orderId } });
@@ -25,31 +58,48 @@ router.post(
         return;
       }
 
-      const bill = await prisma.bill.create({
-        data: {
-          order: { connect: { id: orderId } },
-          business: { connect: { id: businessId } },
-          vatLow: taxRates.vatLow,
-          vatHigh: taxRates.vatHigh,
-          serviceTax: taxRates.serviceTax,
-          serviceCharge: taxRates.serviceCharge,
-        },
-      });
+      // Numbered in the same transaction, so a failed bill leaves no gap
+      const { bills, orderStatus } = await prisma.$transaction((tx) =>
+        issueBills(
+          tx,
+          orderId,
+          {
+            customerGstin: req.body.customer_gstin,
+            placeOfSupply: req.body.place_of_supply,
+            serviceCharge: req.body.service_charge,
+            split: req.body.split,
+          },
+          staffActor(req.businessOwner)
+        )
+      );
+      await publishOrderStatusChange(
+        prisma,
+        order,
+        order.status,
+        orderStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
 
-      res.status(201).json(bill);
+      // A single bill keeps the original response shape
+      res.status(201).json(req.body.split ? { bills } : bills[0]);
     } catch (err: any) {
+      if (err instanceof BillError) {
+        res.status(409).json({ error: err.message });
+        return;
+      }
       res.status(400).json({ error: err.message });
     }
   }
 );
 
-// Get Bill by orderId
+// Get the bills of an order, with whether they are all paid
 router.get(
   "/bill/:orderId",
   authenticateBusinessOwnerJWT,
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const orderId = Number(req.params.orderId);
+      const orderId = parseOrderRef(req.params.orderId);
       const businessId = req.businessOwner?.businessId;
 
       const order = await prisma.order.findUnique({ where: { id: orderId } });
@@ -58,23 +108,123 @@ router.get(
         return;
       }
 
-      const bill = await prisma.bill.findUnique({ where: { orderId } });
-      res.status(200).json(bill);
+      // Items carry their chosen modifiers and notes for printing
+      const items = await prisma.orderItem.findMany({ where: { orderId } });
+      const bills = await prisma.bill.findMany({
+        where: { orderId },
+        orderBy: { splitIndex: "asc" },
+      });
+      // Printed bills show the day's ticket number next to the order id
+      res.status(200).json({
+        ...orderRefFields(order),
+        order: { ...order, items },
+        bills: bills.map((bill) => ({ ...bill, balance: billBalance(bill) })),
+        settled: bills.length > 0 && bills.every((b) => b.status === "Paid"),
+      });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// Logos live on Cloudinary; an invoice still prints if the fetch fails
+async function fetchLogo(url: string | null): Promise<Buffer | null> {
+  if (!url) return null;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+    return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Loads a printable bill of an order in the caller's business (?split=2 for
+// the second split bill), or sends the error response and returns null
+async function invoiceFor(
+  req: BusinessOwnerRequest,
+  res: Response
+): Promise<InvoiceDocument | null> {
+  const orderId = parseOrderRef(req.params.orderId);
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order || order.businessId !== req.businessOwner?.businessId) {
+    res.status(403).json({ error: "Unauthorized access" });
+    return null;
+  }
+
+  const split = Number(req.query.split ?? 1);
+  const invoice = Number.isInteger(split)
+    ? await loadInvoiceDocument(prisma, orderId, split)
+    : null;
+  if (!invoice) {
+    res.status(404).json({ error: "This order has not been billed yet" });
+  }
+  return invoice;
+}
+
+// A4 GST invoice as a PDF
+router.get(
+  "/bill/:orderId/invoice.pdf",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const invoice = await invoiceFor(req, res);
+      if (!invoice) return;
+
+      const pdf = await renderInvoicePdf(
+        invoice,
+        await fetchLogo(invoice.seller.logoUrl)
+      );
+      const fileName = (invoice.invoiceNumber ?? invoice.orderId).replace(
+        /\//g,
+        "-"
+      );
+      res
+        .status(200)
+        .type("application/pdf")
+        .setHeader("Content-Disposition", `inline; filename="${fileName}.pdf"`)
+        .send(pdf);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// ESC/POS bytes for a thermal printer, sent to the printer as-is
+// GET /api/bill/:orderId/receipt?width=58 (80mm by default)
+router.get(
+  "/bill/:orderId/receipt",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const width = Number(req.query.width ?? 80);
+      if (!(width in RECEIPT_COLUMNS)) {
+        res.status(400).json({ error: "width must be 80 or 58" });
+        return;
+      }
+
+      const invoice = await invoiceFor(req, res);
+      if (!invoice) return;
+
+      res
+        .status(200)
+        .type("application/octet-stream")
+        .send(renderEscPosReceipt(invoice, width as ReceiptWidth));
     } catch (err: any) {
       res.status(400).json({ error: err.message });
     }
   }
 );
 
-// Update charges
+// Recompute a bill made before invoice numbering, e.g. to waive service
+// charge. Issued invoices can't change; correct them with a credit note.
+// Body: { customer_gstin?, place_of_supply?, service_charge?: false }
 router.put(
   "/bill/:orderId/update-charges",
   authenticateBusinessOwnerJWT,
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const orderId = Number(req.params.orderId);
+      const orderId = parseOrderRef(req.params.orderId);
       const businessId = req.businessOwner?.businessId;
-      const { vatLow, vatHigh, serviceTax, serviceCharge } = req.body;
 
       const order = await prisma.order.findUnique({ where: { id: orderId } });
       if (!order || order.businessId !== businessId) {
@@ -82,12 +232,220 @@ router.put(
         return;
       }
 
-      const updated = await prisma.bill.update({
-        where: { orderId },
-        data: { vatLow, vatHigh, serviceTax, serviceCharge },
+      const updated = await prisma.$transaction(async (tx) => {
+        const existing = await tx.bill.findUniqueOrThrow({
+          where: { orderId_splitIndex: { orderId, splitIndex: 1 } },
+        });
+        if (existing.invoiceNumber) {
+          throw new InvoiceImmutableError(
+            `Invoice ${existing.invoiceNumber} has been issued; raise a credit note to correct it`
+          );
+        }
+        const tax = await computeOrderTax(tx, orderId, {
+          customerGstin: req.body.customer_gstin ?? existing.customerGstin,
+          placeOfSupply: req.body.place_of_supply ?? existing.placeOfSupply,
+          serviceCharge: req.body.service_charge,
+        });
+        return tx.bill.update({
+          where: { id: existing.id },
+          data: billTaxData(tax),
+        });
       });
 
       res.status(200).json(updated);
+    } catch (err: any) {
+      if (err instanceof InvoiceImmutableError) {
+        res.status(409).json({ error: err.message });
+        return;
+      }
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// Record a payment against a bill. Bills can be paid in parts and in mixed
+// tenders; the order is settled once every split is paid off.
+// Body: { split?: 2, tender: "cash" | "upi" | "card" | "wallet" | "points" | "coupon",
+//   amount?: 500 (defaults to the balance), tendered?: 1000 (cash), tip?: 50,
+//   reference?: "UPI ref", points?: 200, coupon_code?: "GIFT500" }
+router.post(
+  "/bill/:orderId/payments",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+      const splitIndex = Number(req.body.split ?? 1);
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      if (!order || order.businessId !== businessId) {
+        res.status(403).json({ error: "Unauthorized to update this order" });
+        return;
+      }
+
+      const bill = Number.isInteger(splitIndex)
+        ? await prisma.bill.findUnique({
+            where: { orderId_splitIndex: { orderId, splitIndex } },
+          })
+        : null;
+      if (!bill) {
+        res.status(404).json({ error: "Bill not found" });
+        return;
+      }
+
+      const result = await prisma.$transaction((tx) =>
+        payBill(tx, bill.id, req.body, staffActor(req.businessOwner))
+      );
+
+      if (result.orderPaid) {
+        await publishOrderStatusChange(
+          prisma,
+          order,
+          order.status,
+          "Paid"
+        ).catch((err) =>
+          console.error("❌ Failed to publish order status:", err)
+        );
+      }
+
+      res.status(201).json({
+        payment: paymentView(result.payment),
+        bill: result.bill,
+        balance: result.balance,
+        change_due: result.payment.changeDue,
+        open_bills: result.openBills,
+        settled: result.settled,
+        order_status: result.orderPaid ? "Paid" : order.status,
+      });
+    } catch (err: any) {
+      // PaymentError and bad input fall through to 400
+      if (err instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ error: err.message });
+        return;
+      }
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// Payments recorded against an order's bills, with what's still owed
+router.get(
+  "/bill/:orderId/payments",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      if (!order || order.businessId !== businessId) {
+        res.status(403).json({ error: "Unauthorized access" });
+        return;
+      }
+
+      const bills = await prisma.bill.findMany({
+        where: { orderId },
+        include: { payments: { orderBy: { createdAt: "asc" } } },
+        orderBy: { splitIndex: "asc" },
+      });
+
+      res.status(200).json({
+        ...orderRefFields(order),
+        bills: bills.map((bill) => ({
+          split: bill.splitIndex,
+          invoice_number: bill.invoiceNumber,
+          status: bill.status,
+          grand_total: bill.grandTotal,
+          amount_paid: bill.amountPaid,
+          tips: bill.tipAmount,
+          balance: billBalance(bill),
+          payments: bill.payments.map(paymentView),
+        })),
+        balance: roundMoney(
+          bills.reduce((total, bill) => total + billBalance(bill), 0)
+        ),
+      });
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  }
+);
+
+// Refund a paid bill and issue a GST credit note against its invoice
+// Body: { split?: 2, type: "full" | "items" | "amount",
+//   items?: [{ itemId: 12, quantity?: 1 }], amount?: 150,
+//   tender?: "cash" (defaults to how the bill was paid), reference?,
+//   restock?: true, reverse_points?: true, reasonCode: "WRONG_ITEM", note? }
+router.post(
+  "/bill/:orderId/refunds",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+      const splitIndex = Number(req.body.split ?? 1);
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      if (!order || order.businessId !== businessId) {
+        res.status(403).json({ error: "Unauthorized to refund this order" });
+        return;
+      }
+
+      const bill = Number.isInteger(splitIndex)
+        ? await prisma.bill.findUnique({
+            where: { orderId_splitIndex: { orderId, splitIndex } },
+          })
+        : null;
+      if (!bill) {
+        res.status(404).json({ error: "Bill not found" });
+        return;
+      }
+
+      const result = await prisma.$transaction((tx) =>
+        refundBill(tx, bill.id, req.body, req.businessOwner?.userId ?? null)
+      );
+
+      res.status(201).json({
+        credit_note: result.creditNote,
+        against_invoice: result.againstInvoice,
+        still_refundable: result.refundable,
+      });
+    } catch (err: any) {
+      if (err instanceof RefundError || err instanceof OrderReversalError) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      console.error("❌ Refund failed:", err);
+      res.status(500).json({ error: "Failed to refund bill" });
+    }
+  }
+);
+
+// Credit notes issued against an order's bills
+router.get(
+  "/bill/:orderId/refunds",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      if (!order || order.businessId !== businessId) {
+        res.status(403).json({ error: "Unauthorized access" });
+        return;
+      }
+
+      const creditNotes = await prisma.creditNote.findMany({
+        where: { bill: { orderId } },
+        include: {
+          bill: { select: { splitIndex: true, invoiceNumber: true } },
+        },
+        orderBy: { issuedAt: "asc" },
+      });
+
+      res.status(200).json({ ...orderRefFields(order), creditNotes });
     } catch (err: any) {
       res.status(400).json({ error: err.message });
     }
@@ -100,8 +458,9 @@ router.put(
   authenticateBusinessOwnerJWT,
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const orderId = Number(req.params.orderId);
-      const { status } = req.body;
+      const orderId = parseOrderRef(req.params.orderId);
+      const status = parseOrderStatus(req.body.status);
+      const { note } = req.body;
       const businessId = req.businessOwner?.businessId;
 
       const order = await prisma.order.findUnique({ where: { id: orderId } });
@@ -110,19 +469,52 @@ router.put(
         return;
       }
 
-      const updatedOrder = await prisma.order.update({
-        where: { id: orderId },
-        data: { status },
+      if (!status) {
+        res.status(400).json({ error: "Invalid order status" });
+        return;
+      }
+
+      // Cancellations need a manager and a reason; see the orders API
+      if (status === "Cancelled") {
+        res.status(400).json({
+          error: `Cancel orders with POST /api/orders/${req.params.orderId}/cancel`,
+        });
+        return;
+      }
+
+      // Rejecting reverses the order the same way cancelling does
+      const actor = staffActor(req.businessOwner);
+      const reason =
+        status === "Rejected" ? parseReason(req.body.reasonCode, note) : null;
+
+      const updatedOrder = await prisma.$transaction(async (tx) => {
+        if (reason) {
+          await cancelOrder(tx, orderId, actor, reason, {
+            restock: true,
+            to: "Rejected",
+          });
+        } else {
+          await transitionOrder(tx, orderId, status, actor, { note });
+        }
+        return tx.order.findUniqueOrThrow({ where: { id: orderId } });
       });
 
+      await publishOrderStatusChange(prisma, order, order.status, status).catch(
+        (err) => console.error("❌ Failed to publish order status:", err)
+      );
+
       res.status(200).json(updatedOrder);
     } catch (error: any) {
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       res.status(400).json({ error: error.message });
     }
   }
 );
 
-// Get all orders for current business
+// Get orders for current business; same filters and cursor as GET /api/orders
 router.get(
   "/orders",
   authenticateBusinessOwnerJWT,
@@ -130,13 +522,19 @@ router.get(
     try {
       const businessId = req.businessOwner?.businessId;
 
-      const orders = await prisma.order.findMany({
-        where: { businessId },
-        orderBy: { createdAt: "desc" },
-        include: { items: true, bill: true },
-      });
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const { orders, nextCursor } = await searchOrders(
+        prisma,
+        businessId,
+        req.query,
+        { items: true, bills: true }
+      );
 
-      res.status(200).json(orders);
+      res.status(200).json({ orders, nextCursor });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
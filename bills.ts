@@ -0,0 +1,296 @@
+// src/utils/bills.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  advanceOrder,
+  OrderStatus,
+  parseOrderStatus,
+  StatusActor,
+} from "./orderStatus";
+import { nextInvoiceNumber } from "./invoiceNumbers";
+import { PaymentInput, recordPayment } from "./payments";
+import {
+  billTaxData,
+  BillTaxOptions,
+  computeOrderTax,
+  summarizeTax,
+  TaxBreakdown,
+  TaxedLine,
+} from "./taxEngine";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Thrown for bill or split requests the caller can fix
+export class BillError extends Error {}
+
+export type SplitType = "items" | "even" | "amounts";
+
+const MAX_SPLITS = 50;
+
+// Orders the kitchen has accepted can be billed, e.g. takeaway paid at the
+// counter before it is cooked. Pending, closed and already billed orders
+// can't, so they never use up an invoice number.
+const BILLABLE_STATUSES: OrderStatus[] = [
+  "Accepted",
+  "Preparing",
+  "Ready",
+  "Served",
+];
+
+const toPaise = (value: number) => Math.round(value * 100);
+const fromPaise = (paise: number) => paise / 100;
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+// Shares `amount` out in proportion to `weights` to the paisa. Leftover
+// paise go to the largest remainders, so the shares always add up exactly.
+export function allocatePaise(amount: number, weights: number[]): number[] {
+  const paise = toPaise(amount);
+  const totalWeight = sum(weights);
+  if (totalWeight <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((weight) => (paise * weight) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let left = paise - sum(shares);
+  const byRemainder = exact
+    .map((value, i) => ({ i, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.i - b.i);
+  for (const { i } of byRemainder) {
+    if (left <= 0) break;
+    shares[i] += 1;
+    left -= 1;
+  }
+  return shares.map(fromPaise);
+}
+
+// One bill per group of order item ids. Every billed item must be in
+// exactly one group; packaging and delivery charges go on the first bill.
+export function splitByItems(
+  breakdown: TaxBreakdown,
+  groups: unknown
+): TaxBreakdown[] {
+  if (!Array.isArray(groups) || groups.length < 2) {
+    throw new BillError("items must list at least two groups of item ids");
+  }
+
+  const itemLines = breakdown.lines.filter((l) => l.orderItemId !== null);
+  const assigned = new Set<number>();
+  const parts = groups.map((group, i) => {
+    if (!Array.isArray(group) || group.length === 0) {
+      throw new BillError(`Group ${i + 1} has no items`);
+    }
+    return group.map((raw) => {
+      const id = Number(raw);
+      const line = itemLines.find((l) => l.orderItemId === id);
+      if (!line) throw new BillError(`Item ${raw} is not on this bill`);
+      if (assigned.has(id)) {
+        throw new BillError(`Item ${raw} is in more than one group`);
+      }
+      assigned.add(id);
+      return line;
+    });
+  });
+
+  const missing = itemLines.filter((l) => !assigned.has(l.orderItemId!));
+  if (missing.length) {
+    throw new BillError(
+      `Every item needs a group; missing: ${missing.map((l) => l.name).join(", ")}`
+    );
+  }
+
+  const charges = breakdown.lines.filter((l) => l.orderItemId === null);
+  parts[0].push(...charges);
+  return parts.map((lines) => summarizeTax(lines));
+}
+
+// One bill per share of the grand total. Each line is spread over the bills
+// in proportion to the shares, so every bill still shows GST per line and
+// the bills add up to the unsplit check to the paisa.
+export function splitByShares(
+  breakdown: TaxBreakdown,
+  shares: number[]
+): TaxBreakdown[] {
+  const weights = shares.map(toPaise);
+  const perLine = breakdown.lines.map((line) => ({
+    line,
+    gross: allocatePaise(line.gross, weights),
+    discount: allocatePaise(line.discount, weights),
+    serviceCharge: allocatePaise(line.serviceCharge, weights),
+    cgst: allocatePaise(line.cgst, weights),
+    sgst: allocatePaise(line.sgst, weights),
+    igst: allocatePaise(line.igst, weights),
+  }));
+
+  return shares.map((share, i) => {
+    const lines = perLine
+      .map(({ line, ...split }): TaxedLine => {
+        const taxableValue = fromPaise(
+          toPaise(split.gross[i]) -
+            toPaise(split.discount[i]) +
+            toPaise(split.serviceCharge[i])
+        );
+        return {
+          ...line,
+          quantity:
+            Math.round(((line.quantity * weights[i]) / sum(weights)) * 1000) /
+            1000,
+          gross: split.gross[i],
+          discount: split.discount[i],
+          serviceCharge: split.serviceCharge[i],
+          taxableValue,
+          cgst: split.cgst[i],
+          sgst: split.sgst[i],
+          igst: split.igst[i],
+          total: fromPaise(
+            toPaise(taxableValue) +
+              toPaise(split.cgst[i]) +
+              toPaise(split.sgst[i]) +
+              toPaise(split.igst[i])
+          ),
+        };
+      })
+      .filter((line) => line.total !== 0 || line.gross !== 0);
+    return summarizeTax(lines, share);
+  });
+}
+
+// Reads the `split` option of POST /api/bill:
+//   { type: "items", items: [[itemId, ...], [itemId, ...]] }
+//   { type: "even", ways: 3 }
+//   { type: "amounts", amounts: [500, 300] }  (anything left over is one more bill)
+export function splitBreakdown(
+  breakdown: TaxBreakdown,
+  split: any
+): { type: SplitType; parts: TaxBreakdown[] } {
+  switch (split?.type) {
+    case "items":
+      return { type: "items", parts: splitByItems(breakdown, split.items) };
+
+    case "even": {
+      const ways = Number(split.ways);
+      if (!Number.isInteger(ways) || ways < 2 || ways > MAX_SPLITS) {
+        throw new BillError(
+          `ways must be a whole number from 2 to ${MAX_SPLITS}`
+        );
+      }
+      if (toPaise(breakdown.grandTotal) < ways) {
+        throw new BillError("The bill is too small to split that many ways");
+      }
+      const shares = allocatePaise(breakdown.grandTotal, Array(ways).fill(1));
+      return { type: "even", parts: splitByShares(breakdown, shares) };
+    }
+
+    case "amounts": {
+      if (!Array.isArray(split.amounts) || split.amounts.length === 0) {
+        throw new BillError("amounts must list what each bill should be");
+      }
+      const shares = split.amounts.map((raw: unknown) => {
+        const amount = fromPaise(toPaise(Number(raw)));
+        if (!(amount > 0)) {
+          throw new BillError(`${raw} is not a valid amount`);
+        }
+        return amount;
+      });
+      const left = toPaise(breakdown.grandTotal) - sum(shares.map(toPaise));
+      if (left < 0) {
+        throw new BillError(
+          `The amounts add up to more than the bill total of ${breakdown.grandTotal}`
+        );
+      }
+      if (left > 0) shares.push(fromPaise(left));
+      if (shares.length < 2 || shares.length > MAX_SPLITS) {
+        throw new BillError(`A bill splits into 2 to ${MAX_SPLITS} parts`);
+      }
+      return { type: "amounts", parts: splitByShares(breakdown, shares) };
+    }
+
+    default:
+      throw new BillError('split type must be "items", "even" or "amounts"');
+  }
+}
+
+// Works out the order's taxes and issues its bill, or one bill per split,
+// each with its own invoice number. A served order moves to Billed; one
+// still in the kitchen keeps its status, and either way its items are
+// locked from then on. Call inside a transaction.
+export async function issueBills(
+  db: PrismaLike,
+  orderId: number,
+  options: BillTaxOptions & { split?: unknown },
+  actor: StatusActor
+) {
+  if (await db.bill.count({ where: { orderId } })) {
+    throw new BillError("This order has already been billed");
+  }
+  const order = await db.order.findUniqueOrThrow({ where: { id: orderId } });
+  const status = parseOrderStatus(order.status);
+  if (!status || !BILLABLE_STATUSES.includes(status)) {
+    throw new BillError(`Order is ${order.status} and can't be billed`);
+  }
+
+  const tax = await computeOrderTax(db, orderId, options);
+  const { type, parts } = options.split
+    ? splitBreakdown(tax.breakdown, options.split)
+    : { type: null, parts: [tax.breakdown] };
+
+  const issuedAt = new Date();
+  const bills = [];
+  for (const [i, breakdown] of parts.entries()) {
+    const invoice = await nextInvoiceNumber(
+      db,
+      tax.order.businessId,
+      "invoice",
+      issuedAt
+    );
+    bills.push(
+      await db.bill.create({
+        data: {
+          orderId,
+          businessId: tax.order.businessId,
+          ...billTaxData({ ...tax, breakdown }),
+          splitType: type,
+          splitIndex: i + 1,
+          splitCount: parts.length,
+          invoiceNumber: invoice.invoiceNumber,
+          financialYear: invoice.financialYear,
+          invoiceSequence: invoice.sequence,
+          issuedAt,
+        },
+      })
+    );
+  }
+
+  const orderStatus =
+    status === "Served"
+      ? await advanceOrder(db, orderId, "Billed", actor)
+      : status;
+  return { order, bills, orderStatus };
+}
+
+// Records a payment against one bill. Paying off the last open bill
+// settles the order; the order moves to Paid if its food has been served.
+export async function payBill(
+  db: PrismaLike,
+  billId: number,
+  input: PaymentInput,
+  actor: StatusActor
+) {
+  const { payment, bill, balance } = await recordPayment(
+    db,
+    billId,
+    input,
+    actor.id ?? null
+  );
+  const open = await db.bill.count({
+    where: { orderId: bill.orderId, status: "Open" },
+  });
+
+  const order = await db.order.findUniqueOrThrow({
+    where: { id: bill.orderId },
+  });
+  const status = parseOrderStatus(order.status);
+  const settled = open === 0;
+  const orderPaid = settled && (status === "Served" || status === "Billed");
+  if (orderPaid) await advanceOrder(db, order.id, "Paid", actor);
+
+  return { payment, bill, balance, order, settled, orderPaid, openBills: open };
+}
@@ -5,6 +5,8 @@ import {
   authenticateBusinessOwnerJWT,
   BusinessOwnerRequest,
 } from "../middleware/authenticateJWT";
+import { authorizeRoles } from "../middleware/authorizeRoles";
+import { parseOrderType } from "../utils/orderTypes";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -29,6 +31,7 @@ router.get(
 
       const business = await prisma.business.findUnique({
         where: { id: businessId },
+        include: { orderTypeSettings: true, taxClasses: true },
       });
 
       if (!business) {
@@ -43,6 +46,217 @@ router.get(
   }
 );
 
+// ✅ Update order settings (tax rate, GST details, service charge, invoice details, pre-order slots, per-type charges) for the logged-in business
+// orderTypes: { delivery: { isEnabled, packagingCharge, deliveryFee }, ... }
+router.put(
+  "/my-business/settings",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const {
+        taxRate,
+        orderTypes,
+        preorderSlotMinutes,
+        preorderSlotCapacity,
+        preorderLeadMinutes,
+        gstin,
+        stateCode,
+        serviceChargeRate,
+        invoicePrefix,
+        address,
+        upiId,
+      } = req.body;
+
+      if (!businessId) {
+        res.status(400).json({ error: "Business ID not found in token" });
+        return;
+      }
+
+      const data: any = {};
+      if (taxRate !== undefined) {
+        const rate = Number(taxRate);
+        if (isNaN(rate) || rate < 0 || rate > 100) {
+          res.status(400).json({ error: "taxRate must be between 0 and 100" });
+          return;
+        }
+        data.taxRate = rate;
+      }
+
+      if (gstin !== undefined) {
+        const value = gstin ? String(gstin).trim().toUpperCase() : null;
+        if (value && !/^\d{2}[A-Z0-9]{13}$/.test(value)) {
+          res.status(400).json({ error: "gstin must be 15 characters" });
+          return;
+        }
+        data.gstin = value;
+        // The GSTIN starts with the state code
+        if (value && stateCode === undefined)
+          data.stateCode = value.slice(0, 2);
+      }
+
+      if (stateCode !== undefined) {
+        const code = stateCode
+          ? String(stateCode).trim().padStart(2, "0")
+          : null;
+        if (code && !/^\d{2}$/.test(code)) {
+          res
+            .status(400)
+            .json({ error: "stateCode must be a two-digit GST state code" });
+          return;
+        }
+        data.stateCode = code;
+      }
+
+      if (serviceChargeRate !== undefined) {
+        const rate = Number(serviceChargeRate);
+        if (isNaN(rate) || rate < 0 || rate > 100) {
+          res
+            .status(400)
+            .json({ error: "serviceChargeRate must be between 0 and 100" });
+          return;
+        }
+        data.serviceChargeRate = rate;
+      }
+
+      // Only future invoices use a new prefix; the sequence carries on
+      if (invoicePrefix !== undefined) {
+        const prefix = invoicePrefix
+          ? String(invoicePrefix).trim().toUpperCase()
+          : null;
+        if (prefix && !/^[A-Z0-9]{1,8}$/.test(prefix)) {
+          res.status(400).json({
+            error: "invoicePrefix must be up to 8 letters or digits",
+          });
+          return;
+        }
+        data.invoicePrefix = prefix;
+      }
+
+      if (address !== undefined) {
+        data.address = address ? String(address).trim() : null;
+      }
+
+      if (upiId !== undefined) {
+        const vpa = upiId ? String(upiId).trim().toLowerCase() : null;
+        if (vpa && !/^[a-z0-9._-]+@[a-z0-9.-]+$/.test(vpa)) {
+          res.status(400).json({ error: "upiId must look like name@bank" });
+          return;
+        }
+        data.upiId = vpa;
+      }
+
+      if (preorderSlotMinutes !== undefined) {
+        const minutes = Number(preorderSlotMinutes);
+        // Slots start at midnight, so they must divide the day evenly
+        if (!Number.isInteger(minutes) || minutes < 5 || 1440 % minutes !== 0) {
+          res.status(400).json({
+            error:
+              "preorderSlotMinutes must divide a day evenly (e.g. 15, 30, 60)",
+          });
+          return;
+        }
+        data.preorderSlotMinutes = minutes;
+      }
+
+      if (preorderSlotCapacity !== undefined) {
+        const capacity =
+          preorderSlotCapacity === null ? null : Number(preorderSlotCapacity);
+        if (
+          capacity !== null &&
+          (!Number.isInteger(capacity) || capacity < 0)
+        ) {
+          res.status(400).json({
+            error: "preorderSlotCapacity must be a whole number or null",
+          });
+          return;
+        }
+        data.preorderSlotCapacity = capacity;
+      }
+
+      if (preorderLeadMinutes !== undefined) {
+        const lead = Number(preorderLeadMinutes);
+        if (!Number.isInteger(lead) || lead < 0) {
+          res
+            .status(400)
+            .json({ error: "preorderLeadMinutes must be 0 or more" });
+          return;
+        }
+        data.preorderLeadMinutes = lead;
+      }
+
+      const typeSettings: {
+        orderType: string;
+        isEnabled?: boolean;
+        packagingCharge?: number;
+        deliveryFee?: number;
+      }[] = [];
+      if (orderTypes !== undefined) {
+        if (typeof orderTypes !== "object" || Array.isArray(orderTypes)) {
+          res.status(400).json({ error: "orderTypes must be an object" });
+          return;
+        }
+        for (const [key, value] of Object.entries<any>(orderTypes)) {
+          const orderType = parseOrderType(key);
+          const packagingCharge =
+            value?.packagingCharge !== undefined
+              ? Number(value.packagingCharge)
+              : undefined;
+          const deliveryFee =
+            value?.deliveryFee !== undefined
+              ? Number(value.deliveryFee)
+              : undefined;
+
+          if (!orderType) {
+            res.status(400).json({ error: `Unknown order type "${key}"` });
+            return;
+          }
+          if (
+            [packagingCharge, deliveryFee].some(
+              (amount) => amount !== undefined && (isNaN(amount) || amount < 0)
+            )
+          ) {
+            res
+              .status(400)
+              .json({ error: `Charges for ${orderType} must be 0 or more` });
+            return;
+          }
+          typeSettings.push({
+            orderType,
+            isEnabled:
+              value?.isEnabled !== undefined
+                ? Boolean(value.isEnabled)
+                : undefined,
+            packagingCharge,
+            deliveryFee,
+          });
+        }
+      }
+
+      const business = await prisma.$transaction(async (tx) => {
+        for (const { orderType, ...setting } of typeSettings) {
+          await tx.orderTypeSetting.upsert({
+            where: { businessId_orderType: { businessId, orderType } },
+            create: { businessId, orderType, ...setting },
+            update: setting,
+          });
+        }
+        return tx.business.update({
+          where: { id: businessId },
+          data,
+          include: { orderTypeSettings: true },
+        });
+      });
+
+      res.json({ message: "Settings updated", business });
+    } catch (error) {
+      console.error("Error updating business settings:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 router.post(
   "/business",
   authenticateBusinessOwnerJWT,
@@ -5,6 +5,7 @@ import {
   BusinessOwnerRequest,
 } from "../middleware/authenticateJWT";
 import upload from "../middleware/multer";
+import { parseTaxClassId, TaxError } from "../utils/taxEngine";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -16,7 +17,7 @@ router.post(
   upload.single("image"),
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const { name } = req.body;
+      const { name, taxClassId } = req.body;
       const businessId = req.businessOwner?.businessId;
       const file = req.file;
       const imageUrl = file ? file.path : null;
@@ -43,11 +44,16 @@ router.post(
           name,
           businessId,
           metadata: { imageUrl },
+          taxClassId: await parseTaxClassId(prisma, businessId, taxClassId),
         },
       });
 
       res.status(201).json(category);
     } catch (error) {
+      if (error instanceof TaxError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error("Error creating category:", error);
       res.status(500).json({ error: "Internal server error" });
     }
@@ -79,7 +85,7 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
   }
 });
 
-// ✅ Update category name/image
+// ✅ Update category name/image/tax class
 router.put(
   "/:id",
   authenticateBusinessOwnerJWT,
@@ -87,7 +93,7 @@ router.put(
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
       const categoryId = parseInt(req.params.id);
-      const { name } = req.body;
+      const { name, taxClassId } = req.body;
       const businessId = req.businessOwner?.businessId;
       const file = req.file;
 
@@ -112,11 +118,20 @@ router.put(
         data: {
           name,
           metadata: { imageUrl },
+          taxClassId: await parseTaxClassId(
+            prisma,
+            category.businessId,
+            taxClassId
+          ),
         },
       });
 
       res.json(updated);
     } catch (error) {
+      if (error instanceof TaxError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error("Error updating category:", error);
       res.status(500).json({ error: "Internal server error" });
     }
@@ -4,6 +4,7 @@ import {
   authenticateBusinessOwnerJWT,
   BusinessOwnerRequest,
 } from "../middleware/authenticateJWT";
+import { computeCouponDiscount } from "../utils/orderPricing";
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -113,15 +114,7 @@ router.post(
         return;
       }
 
-      let discount = 0;
-      if (coupon.discountType === "flat") {
-        discount = coupon.discountValue;
-      } else if (coupon.discountType === "percent") {
-        discount = (coupon.discountValue / 100) * orderTotal;
-        if (coupon.maxDiscount && discount > coupon.maxDiscount) {
-          discount = coupon.maxDiscount;
-        }
-      }
+      const discount = computeCouponDiscount(coupon, orderTotal);
 
       res.json({
         message: "Coupon applied successfully",
@@ -6,6 +6,15 @@ import {
   authenticateCustomerJWT,
   CustomerRequest,
 } from "../middleware/authenticateJWT";
+import {
+  buildReorderCart,
+  customerOrderView,
+  findTokenCustomer,
+  ReorderError,
+} from "../utils/customerOrders";
+import { OrderSearchError, searchOrders } from "../utils/orderSearch";
+import { formatLine, roundMoney } from "../utils/orderPricing";
+import { parseOrderRef } from "../utils/orderRefs";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -268,6 +277,92 @@ router.get(
   }
 );
 
+// ✅ GET /api/customers/me/orders?limit=20&cursor=<nextCursor>
+// Accepts the same status/date filters as the staff order history
+router.get(
+  "/me/orders",
+  authenticateCustomerJWT,
+  async (req: CustomerRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.customer?.customerId || !req.customer.businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const customer = await findTokenCustomer(prisma, req.customer);
+      if (!customer) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      const { orders, nextCursor } = await searchOrders(
+        prisma,
+        customer.businessId,
+        {
+          ...req.query,
+          limit: req.query.limit ?? "20",
+          customer: String(customer.customerId),
+        },
+        { items: true }
+      );
+
+      res.json({ orders: orders.map(customerOrderView), nextCursor });
+    } catch (err) {
+      if (err instanceof OrderSearchError) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      console.error("❌ Fetch customer orders failed:", err);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+// ✅ POST /api/customers/me/orders/:orderId/reorder
+// Returns a cart at today's prices; send cart_items to POST /api/orders
+router.post(
+  "/me/orders/:orderId/reorder",
+  authenticateCustomerJWT,
+  async (req: CustomerRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.customer?.customerId || !req.customer.businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const customer = await findTokenCustomer(prisma, req.customer);
+      if (!customer) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+
+      const { order, cartItems, lines, unavailable } = await buildReorderCart(
+        prisma,
+        customer.id,
+        parseOrderRef(req.params.orderId)
+      );
+
+      res.json({
+        businessId: order.businessId,
+        order_type: order.orderType,
+        cart_items: cartItems,
+        items: lines.map(formatLine),
+        subtotal: roundMoney(
+          lines.reduce((sum, line) => sum + line.lineTotal, 0)
+        ),
+        unavailable,
+      });
+    } catch (err) {
+      if (err instanceof ReorderError) {
+        res.status(404).json({ error: err.message });
+        return;
+      }
+      console.error("❌ Reorder failed:", err);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
 // ✅ PATCH /customer/:id
 router.patch(
   "/customer/:id",
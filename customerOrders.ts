@@ -0,0 +1,98 @@
+// src/utils/customerOrders.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { CustomerPayload } from "../middleware/authenticateJWT";
+import {
+  CartItemInput,
+  ChosenModifier,
+  OrderPricingError,
+  priceLines,
+} from "./orderPricing";
+import { parseItemStatus } from "./orderStatus";
+import { orderRefFields } from "./orderRefs";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export class ReorderError extends Error {}
+
+// Customer tokens carry the business's own customerId, not Customer.id
+export const findTokenCustomer = (db: PrismaLike, payload: CustomerPayload) =>
+  db.customer.findUnique({
+    where: {
+      customerId_businessId: {
+        customerId: payload.customerId,
+        businessId: payload.businessId,
+      },
+    },
+  });
+
+type HistoryOrder = Prisma.OrderGetPayload<{ include: { items: true } }>;
+
+// One row of the customer's order history
+export const customerOrderView = (order: HistoryOrder) => ({
+  ...orderRefFields(order),
+  order_type: order.orderType,
+  table_number: order.tableNumber,
+  status: order.status,
+  created_at: order.createdAt,
+  total_amount: order.totalAmount,
+  points_earned: order.pointsEarned,
+  points_redeemed: order.pointsRedeemed,
+  items: order.items
+    .filter((item) => parseItemStatus(item.status) !== "Cancelled")
+    .map((item) => ({
+      productId: item.productId,
+      name: item.name,
+      variant: item.variantName,
+      quantity: item.quantity,
+      price: item.price,
+      modifiers: item.modifiers ?? [],
+      note: item.note,
+    })),
+});
+
+// Rebuilds the cart of a past order at today's prices. Lines whose product,
+// variant or options are no longer sold are reported instead of failing the
+// whole cart, so the guest can decide what to do about them.
+export async function buildReorderCart(
+  db: PrismaLike,
+  customerId: number,
+  orderId: number
+) {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    include: { items: true },
+  });
+  if (!order || order.customerId !== customerId) {
+    throw new ReorderError("Order not found");
+  }
+
+  const cartItems: CartItemInput[] = [];
+  const unavailable: { name: string; reason: string }[] = [];
+
+  for (const item of order.items) {
+    if (parseItemStatus(item.status) === "Cancelled") continue;
+
+    const modifiers =
+      (item.modifiers as unknown as ChosenModifier[] | null) ?? [];
+    const cartItem: CartItemInput = {
+      productId: item.productId,
+      variantId: item.variantId ?? undefined,
+      quantity: item.quantity,
+      modifiers: modifiers.map((m) => m.optionId),
+      note: item.note ?? undefined,
+    };
+
+    try {
+      await priceLines(db, order.businessId, [cartItem]);
+      cartItems.push(cartItem);
+    } catch (error) {
+      if (!(error instanceof OrderPricingError)) throw error;
+      unavailable.push({ name: item.name, reason: error.message });
+    }
+  }
+
+  const lines = await priceLines(db, order.businessId, cartItems);
+
+  return { order, cartItems, lines, unavailable };
+}
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import dayjs from "dayjs";
+import { FULFILLED_ORDER_STATUSES } from "../utils/orderStatus";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -29,7 +30,7 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
     const orders = await prisma.order.findMany({
       where: {
         businessId: Number(businessId),
-        status: "Completed",
+        status: { in: FULFILLED_ORDER_STATUSES },
         createdAt: {
           gte: startDate,
           lt: endDate,
@@ -0,0 +1,158 @@
+// src/utils/escposReceipt.ts
+
+import {
+  formatInvoiceDate,
+  formatMoney,
+  InvoiceDocument,
+} from "./invoiceDocument";
+
+// Characters per line in the printer's standard font
+export const RECEIPT_COLUMNS = { 80: 48, 58: 32 } as const;
+export type ReceiptWidth = keyof typeof RECEIPT_COLUMNS;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+const INIT = [ESC, 0x40];
+const ALIGN_LEFT = [ESC, 0x61, 0];
+const ALIGN_CENTER = [ESC, 0x61, 1];
+const BOLD_ON = [ESC, 0x45, 1];
+const BOLD_OFF = [ESC, 0x45, 0];
+const DOUBLE_ON = [GS, 0x21, 0x11];
+const DOUBLE_OFF = [GS, 0x21, 0];
+const FEED_AND_CUT = [ESC, 0x64, 4, GS, 0x56, 0x42, 0];
+
+// The printer draws the QR itself (GS ( k), so no image is sent
+function qrCommands(data: string): number[] {
+  const bytes = [...Buffer.from(data, "ascii")];
+  const length = bytes.length + 3;
+  return [
+    ...[GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0], // model 2
+    ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6], // module size
+    ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31], // error correction M
+    ...[GS, 0x28, 0x6b, length % 256, Math.floor(length / 256), 0x31, 0x50],
+    0x30,
+    ...bytes,
+    ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30], // print
+  ];
+}
+
+// Thermal printers use a single-byte code page, so anything outside
+// printable ASCII is replaced
+const printable = (text: string) => text.replace(/[^\x20-\x7e]/g, "?");
+
+// Left text and right-aligned amount on one line; long text wraps above
+function leftRight(left: string, right: string, columns: number): string[] {
+  const room = columns - right.length - 1;
+  const lines: string[] = [];
+  let rest = left;
+  while (rest.length > room) {
+    lines.push(rest.slice(0, columns));
+    rest = rest.slice(columns);
+  }
+  lines.push(rest.padEnd(room) + " " + right);
+  return lines;
+}
+
+const wrap = (text: string, columns: number): string[] =>
+  text.match(new RegExp(`.{1,${columns}}`, "g")) ?? [""];
+
+// Renders the bill as an ESC/POS byte stream for an 80mm or 58mm printer.
+// Works from the same document as the PDF invoice, with no network or
+// clock access, so a given document always produces the same bytes.
+export function renderEscPosReceipt(
+  invoice: InvoiceDocument,
+  width: ReceiptWidth = 80
+): Buffer {
+  const columns = RECEIPT_COLUMNS[width];
+  const out: number[] = [...INIT];
+  const text = (line: string) =>
+    out.push(...Buffer.from(printable(line) + "\n", "ascii"));
+  const command = (bytes: number[]) => out.push(...bytes);
+  const divider = () => text("-".repeat(columns));
+
+  // Seller
+  command(ALIGN_CENTER);
+  command(BOLD_ON);
+  command(DOUBLE_ON);
+  wrap(invoice.seller.name, Math.floor(columns / 2)).forEach(text);
+  command(DOUBLE_OFF);
+  command(BOLD_OFF);
+  if (invoice.seller.address) {
+    wrap(invoice.seller.address, columns).forEach(text);
+  }
+  if (invoice.seller.gstin) text(`GSTIN: ${invoice.seller.gstin}`);
+  command(BOLD_ON);
+  text("TAX INVOICE");
+  command(BOLD_OFF);
+
+  // Invoice details
+  command(ALIGN_LEFT);
+  divider();
+  text(`Invoice: ${invoice.invoiceNumber ?? "Not issued"}`);
+  text(`Date: ${formatInvoiceDate(invoice.issuedAt)}`);
+  text(
+    `Order: ${invoice.orderId}` +
+      (invoice.ticketNumber ? ` (${invoice.ticketNumber})` : "")
+  );
+  if (invoice.split) {
+    text(`Split bill ${invoice.split.index} of ${invoice.split.count}`);
+  }
+  if (invoice.tableNumber !== null) text(`Table: ${invoice.tableNumber}`);
+  if (invoice.buyer.name) text(`Customer: ${invoice.buyer.name}`);
+  if (invoice.buyer.gstin) text(`Customer GSTIN: ${invoice.buyer.gstin}`);
+  if (invoice.buyer.placeOfSupply) {
+    text(`Place of supply: ${invoice.buyer.placeOfSupply}`);
+  }
+  divider();
+
+  // Line items: name, then quantity x rate with the line amount
+  for (const line of invoice.lines) {
+    wrap(line.name, columns).forEach(text);
+    leftRight(
+      `  ${line.quantity} x ${formatMoney(line.unitPrice)} @${line.rate}%`,
+      formatMoney(line.gross),
+      columns
+    ).forEach(text);
+  }
+  divider();
+
+  const total = (label: string, amount: number) =>
+    leftRight(label, formatMoney(amount), columns).forEach(text);
+  total("Subtotal", invoice.subtotal);
+  if (invoice.discount) total("Discount", -invoice.discount);
+  if (invoice.serviceCharge) {
+    total(
+      `Service charge ${invoice.serviceChargeRate}%`,
+      invoice.serviceCharge
+    );
+  }
+  total("Taxable value", invoice.taxableValue);
+  for (const rate of invoice.rates) {
+    if (invoice.isInterState) {
+      total(`IGST ${rate.rate}%`, rate.igst);
+    } else {
+      total(`CGST ${rate.rate / 2}%`, rate.cgst);
+      total(`SGST ${rate.rate / 2}%`, rate.sgst);
+    }
+  }
+  if (invoice.roundOff) total("Round off", invoice.roundOff);
+  divider();
+  command(BOLD_ON);
+  total("TOTAL (INR)", invoice.grandTotal);
+  command(BOLD_OFF);
+
+  if (invoice.upiUri) {
+    command(ALIGN_CENTER);
+    text("");
+    command(qrCommands(invoice.upiUri));
+    text("Scan to pay with any UPI app");
+  }
+
+  command(ALIGN_CENTER);
+  text("");
+  text("Thank you! Visit again");
+  command(FEED_AND_CUT);
+
+  return Buffer.from(out);
+}
@@ -0,0 +1,157 @@
+import { Router, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  authenticateBusinessOwnerJWT,
+  BusinessOwnerRequest,
+} from "../middleware/authenticateJWT";
+import { authorizeRoles } from "../middleware/authorizeRoles";
+import { feedbackSummary } from "../utils/orderFeedback";
+import { businessDayStart } from "../utils/orderScheduling";
+import { orderRefFields } from "../utils/orderRefs";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ✅ GET: Average ratings per product and per day
+// GET /api/feedback/summary?from=2025-07-01&to=2025-07-31 (defaults to the last 30 days)
+router.get(
+  "/summary",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const to =
+        typeof req.query.to === "string"
+          ? new Date(businessDayStart(req.query.to).getTime() + DAY_MS - 1)
+          : new Date();
+      const from =
+        typeof req.query.from === "string"
+          ? businessDayStart(req.query.from)
+          : new Date(to.getTime() - 30 * DAY_MS);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        res.status(400).json({ error: "from and to must be YYYY-MM-DD" });
+        return;
+      }
+
+      const summary = await feedbackSummary(prisma, businessId, from, to);
+      res.json({ from, to, ...summary });
+    } catch (error) {
+      console.error("❌ Feedback summary failed:", error);
+      res.status(500).json({ error: "Failed to load feedback summary" });
+    }
+  }
+);
+
+// ✅ GET: Low ratings waiting for (or already given) a follow-up
+// GET /api/feedback/flagged?resolved=true to see the handled ones
+router.get(
+  "/flagged",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const resolved = req.query.resolved === "true";
+      const flagged = await prisma.orderFeedback.findMany({
+        where: {
+          businessId,
+          isFlagged: true,
+          followedUpAt: resolved ? { not: null } : null,
+        },
+        include: {
+          order: true,
+          customer: true,
+          items: { include: { orderItem: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        take: 100,
+      });
+
+      res.json(
+        flagged.map((entry) => ({
+          id: entry.id,
+          ...orderRefFields(entry.order),
+          rating: entry.rating,
+          comment: entry.comment,
+          created_at: entry.createdAt,
+          customer: entry.customer
+            ? {
+                name: entry.customer.name,
+                email: entry.customer.email,
+                mobile: entry.customer.mobile,
+              }
+            : null,
+          contact_phone: entry.order.contactPhone,
+          items: entry.items.map((item) => ({
+            name: item.orderItem.name,
+            variant: item.orderItem.variantName,
+            rating: item.rating,
+            comment: item.comment,
+          })),
+          followed_up_at: entry.followedUpAt,
+          follow_up_note: entry.followUpNote,
+        }))
+      );
+    } catch (error) {
+      console.error("❌ Flagged feedback failed:", error);
+      res.status(500).json({ error: "Failed to load flagged feedback" });
+    }
+  }
+);
+
+// ✅ PATCH: Mark a flagged rating as followed up
+// Body: { note: "Called the guest, offered a free dessert" }
+router.patch(
+  "/:id/follow-up",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        res.status(400).json({ error: "Invalid feedback id" });
+        return;
+      }
+
+      const entry = await prisma.orderFeedback.findUnique({ where: { id } });
+      if (!entry || entry.businessId !== businessId) {
+        res.status(404).json({ error: "Feedback not found" });
+        return;
+      }
+
+      const updated = await prisma.orderFeedback.update({
+        where: { id },
+        data: {
+          followedUpAt: new Date(),
+          followUpNote: req.body.note ? String(req.body.note) : null,
+        },
+      });
+
+      res.json({
+        id: updated.id,
+        followed_up_at: updated.followedUpAt,
+        follow_up_note: updated.followUpNote,
+        message: "Feedback marked as followed up",
+      });
+    } catch (error) {
+      console.error("❌ Feedback follow-up failed:", error);
+      res.status(500).json({ error: "Failed to update feedback" });
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,12 @@
 import upload from "../middleware/multer";
 import { Router, Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
+import {
+  parseVariants,
+  portionVariants,
+  ProductVariantError,
+  saveVariants,
+} from "../utils/productVariants";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -21,6 +27,7 @@ router.post(
         userId,
         businessId,
         productType,
+        variants,
       } = req.body;
 
       if (!userId || isNaN(Number(userId))) {
@@ -40,6 +47,14 @@ router.post(
         return;
       }
 
+      // Half/full portions are variants, not metadata
+      const variantList =
+        parseVariants(variants) ??
+        portionVariants(
+          parseFloat(fullPrice),
+          halfPrice ? parseFloat(halfPrice) : null
+        );
+
       const productData = {
         name,
         description,
@@ -48,7 +63,6 @@ router.post(
         createdBy: Number(userId),
         productType: productType || "food",
         metadata: {
-          halfPrice: halfPrice ? parseFloat(halfPrice) : null,
           ingredients,
           spicyLevel: spicyLevel ? parseInt(spicyLevel) : null,
           about,
@@ -56,12 +70,21 @@ router.post(
         },
       };
 
-      const product = await prisma.product.create({
-        data: productData,
+      const product = await prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({ data: productData });
+        await saveVariants(tx, created.id, variantList);
+        return tx.product.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { variants: true },
+        });
       });
 
       res.json({ message: "Product created", product });
     } catch (error) {
+      if (error instanceof ProductVariantError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error("Create product error:", error);
       res.status(500).json({ error: "Something went wrong" });
     }
@@ -71,7 +94,10 @@ router.post(
 router.get("/", async (_req, res) => {
   try {
     const products = await prisma.product.findMany({
-      include: { business: true },
+      include: {
+        business: true,
+        variants: { where: { isActive: true }, orderBy: { sortOrder: "asc" } },
+      },
     });
     res.json(products);
   } catch (error) {
@@ -82,7 +108,7 @@ router.get("/", async (_req, res) => {
 
 router.put("/:id", async (req: Request, res: Response): Promise<void> => {
   const id = Number(req.params.id);
-  const { name, description, price, metadata } = req.body;
+  const { name, description, price, halfPrice, metadata, variants } = req.body;
 
   if (isNaN(id)) {
     res.status(400).json({ error: "Invalid product id" });
@@ -90,18 +116,37 @@ router.put("/:id", async (req: Request, res: Response): Promise<void> => {
   }
 
   try {
-    const updatedProduct = await prisma.product.update({
-      where: { id },
-      data: {
-        name,
-        description,
-        price: price ? Number(price) : undefined,
-        metadata: metadata ? metadata : undefined,
-      },
+    const variantList =
+      parseVariants(variants) ??
+      (halfPrice !== undefined && price
+        ? portionVariants(Number(price), Number(halfPrice))
+        : undefined);
+
+    const updatedProduct = await prisma.$transaction(async (tx) => {
+      await tx.product.update({
+        where: { id },
+        data: {
+          name,
+          description,
+          price: price ? Number(price) : undefined,
+          metadata: metadata ? metadata : undefined,
+        },
+      });
+      if (variantList) {
+        await saveVariants(tx, id, variantList);
+      }
+      return tx.product.findUniqueOrThrow({
+        where: { id },
+        include: { variants: true },
+      });
     });
 
     res.json(updatedProduct);
   } catch (error) {
+    if (error instanceof ProductVariantError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     console.error("Update product error:", error);
     res.status(400).json({ error: "Error updating product" });
   }
@@ -0,0 +1,101 @@
+// src/utils/idempotency.ts
+
+import crypto from "crypto";
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Retries after this long are treated as brand new requests
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type IdempotencyClaim =
+  | { state: "new"; id: number }
+  | { state: "replay"; statusCode: number; response: Prisma.JsonValue }
+  | { state: "mismatch" }
+  | { state: "in-progress" };
+
+// Key order must not change the hash, so objects are serialised sorted
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export const hashRequest = (body: unknown): string =>
+  crypto.createHash("sha256").update(stableStringify(body)).digest("hex");
+
+// Reserves the key for this request, or reports what happened to an
+// earlier request that used it
+export async function claimIdempotencyKey(
+  db: PrismaLike,
+  businessId: number,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  try {
+    const row = await db.idempotencyKey.create({
+      data: { businessId, key, requestHash },
+    });
+    return { state: "new", id: row.id };
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  const existing = await db.idempotencyKey.findUnique({
+    where: { businessId_key: { businessId, key } },
+  });
+
+  // Released or expired between our insert and this read
+  if (!existing || Date.now() - existing.createdAt.getTime() > KEY_TTL_MS) {
+    await db.idempotencyKey.deleteMany({ where: { businessId, key } });
+    return claimIdempotencyKey(db, businessId, key, requestHash);
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { state: "mismatch" };
+  }
+  if (existing.statusCode === null || existing.response === null) {
+    return { state: "in-progress" };
+  }
+  return {
+    state: "replay",
+    statusCode: existing.statusCode,
+    response: existing.response,
+  };
+}
+
+export async function completeIdempotencyKey(
+  db: PrismaLike,
+  id: number,
+  statusCode: number,
+  response: unknown
+) {
+  await db.idempotencyKey.update({
+    where: { id },
+    data: {
+      statusCode,
+      response: JSON.parse(JSON.stringify(response)),
+    },
+  });
+}
+
+// Frees the key after a failed attempt so the guest can simply retry. A
+// completed key is kept: its order exists, and a retry must replay it.
+export async function releaseIdempotencyKey(db: PrismaLike, id: number) {
+  await db.idempotencyKey.deleteMany({ where: { id, statusCode: null } });
+}
@@ -1,6 +1,7 @@
 import express, { NextFunction, Request, Response } from "express";
 import cors from "cors";
 import dotenv from "dotenv";
+import { PrismaClient } from "@prisma/client";
 
 import authRouter from "./routes/auth";
 import foodRoutes from "./routes/food";
@@ -11,6 +12,7 @@ import businessRoutes from "./routes/business";
 import categoryRouter from "./routes/category";
 import billpageRouter from "./routes/billpage";
 import orderRoutes from "./routes/order";
+import kitchenRoutes from "./routes/kitchen";
 import planRouter from "./routes/plan";
 import passwordResetRoute from "./routes/passwordReset";
 import adminRoutes from "./routes/admin";
@@ -19,7 +21,11 @@ import tableRoutes from "./routes/table";
 import inventoryRoutes from "./routes/inventory";
 import customerRoutes from "./routes/customer";
 import couponRoutes from "./routes/coupons";
+import feedbackRoutes from "./routes/feedback";
+import taxClassRoutes from "./routes/taxClasses";
+import shiftRoutes from "./routes/shifts";
 import businesswhatsappdataRoutes from "./routes/businesswhatsappdata"
+import { startScheduledOrderRelease } from "./utils/orderEvents";
 
 dotenv.config();
 
@@ -39,6 +45,7 @@ app.use("/api/categories", categoryRouter);
 app.use("/api", businessUserRoutes);
 app.use("/api", billpageRouter);
 app.use("/api/orders", orderRoutes);
+app.use("/api/kitchen", kitchenRoutes);
 app.use("/api", planRouter);
 app.use("/api/password-reset", passwordResetRoute);
 app.use("/api/admin", adminRoutes);
@@ -47,6 +54,9 @@ app.use("/api/customers", customerRoutes);
 app.use("/api/businesswhatsappdata", businesswhatsappdataRoutes);
 app.use("/api/inventory", inventoryRoutes);
 app.use("/api/coupons", couponRoutes);
+app.use("/api/feedback", feedbackRoutes);
+app.use("/api/tax-classes", taxClassRoutes);
+app.use("/api/shifts", shiftRoutes);
 
 // Global error handler middleware — MUST be after all routes
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
@@ -62,3 +72,6 @@ const PORT = process.env.PORT || 10000;
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
 });
+
+// Pushes pre-orders to kitchen screens once they are due
+startScheduledOrderRelease(new PrismaClient());
@@ -0,0 +1,75 @@
+// src/utils/inventoryUsage.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export interface Ingredient {
+  name: string;
+  quantity: number;
+}
+
+export interface StockLine {
+  quantity: number;
+  metadata: Prisma.JsonValue | null;
+  recipe?: Prisma.JsonValue | null; // ProductVariant.ingredients
+}
+
+// Product.metadata.ingredients may be stored as an object or a JSON string
+export function getIngredients(
+  metadata: Prisma.JsonValue | null
+): Ingredient[] {
+  if (!metadata) return [];
+
+  let metadataObj: any;
+  if (typeof metadata === "string") {
+    try {
+      metadataObj = JSON.parse(metadata);
+    } catch (e) {
+      metadataObj = {};
+    }
+  } else {
+    metadataObj = metadata;
+  }
+
+  const ingredients = metadataObj?.ingredients;
+  return Array.isArray(ingredients) ? ingredients : [];
+}
+
+// A variant with its own recipe (half plate, large) overrides the product's
+const lineIngredients = (line: StockLine): Ingredient[] =>
+  Array.isArray(line.recipe)
+    ? (line.recipe as unknown as Ingredient[])
+    : getIngredients(line.metadata);
+
+// Deducts (or puts back) the recipe quantities for the given order lines.
+// Amounts are summed per ingredient first so a large cart costs one query
+// per distinct ingredient rather than one per line.
+export async function adjustInventory(
+  db: PrismaLike,
+  businessId: number,
+  lines: StockLine[],
+  direction: "deduct" | "restore"
+) {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    for (const ing of lineIngredients(line)) {
+      const amount = Number(ing.quantity) * line.quantity;
+      if (!isNaN(amount)) {
+        totals.set(ing.name, (totals.get(ing.name) ?? 0) + amount);
+      }
+    }
+  }
+
+  for (const [name, amount] of totals) {
+    await db.inventoryItem.updateMany({
+      where: { name, businessId },
+      data: {
+        quantity:
+          direction === "deduct"
+            ? { decrement: amount }
+            : { increment: amount },
+      },
+    });
+  }
+}
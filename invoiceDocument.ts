@@ -0,0 +1,151 @@
+// src/utils/invoiceDocument.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { BUSINESS_UTC_OFFSET_MINUTES } from "./orderScheduling";
+import { orderRefFields } from "./orderRefs";
+import { TaxBreakdown, TaxedLine } from "./taxEngine";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Everything printed on an invoice, already worked out. The PDF and thermal
+// receipt renderers only lay this out, so both print the same figures and a
+// fixed document always renders to the same bytes.
+export interface InvoiceDocument {
+  seller: {
+    name: string;
+    address: string | null;
+    gstin: string | null;
+    stateCode: string | null;
+    logoUrl: string | null;
+  };
+  invoiceNumber: string | null; // null for bills made before numbering
+  split: { index: number; count: number } | null;
+  issuedAt: Date;
+  orderId: string;
+  ticketNumber: string | null;
+  orderType: string;
+  tableNumber: number | null;
+  buyer: {
+    name: string | null;
+    gstin: string | null;
+    placeOfSupply: string | null;
+  };
+  isInterState: boolean;
+  lines: TaxedLine[];
+  rates: TaxBreakdown["rates"];
+  subtotal: number;
+  discount: number;
+  serviceChargeRate: number;
+  serviceCharge: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  roundOff: number;
+  grandTotal: number;
+  upiUri: string | null; // encoded into the pay-by-UPI QR
+}
+
+export const formatMoney = (value: number) => value.toFixed(2);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Invoices show business-local time whatever the server's timezone is
+export function formatInvoiceDate(date: Date): string {
+  const local = new Date(
+    date.getTime() + BUSINESS_UTC_OFFSET_MINUTES * 60 * 1000
+  );
+  return (
+    `${pad(local.getUTCDate())}-${pad(local.getUTCMonth() + 1)}-` +
+    `${local.getUTCFullYear()} ${pad(local.getUTCHours())}:` +
+    `${pad(local.getUTCMinutes())}`
+  );
+}
+
+// UPI deep link any UPI app can scan, prefilled with the amount due
+export function upiPaymentUri(
+  vpa: string,
+  payee: string,
+  amount: number,
+  note: string
+): string {
+  const params = [
+    ["pa", vpa],
+    ["pn", payee],
+    ["am", formatMoney(amount)],
+    ["cu", "INR"],
+    ["tn", note],
+  ];
+  return `upi://pay?${params
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&")}`;
+}
+
+type BillWithOrder = Prisma.BillGetPayload<{
+  include: { order: { include: { customer: true } }; business: true };
+}>;
+
+// Builds the printable document from a stored bill. Nothing is recomputed:
+// the figures are the ones saved when the bill was made.
+export function buildInvoiceDocument(bill: BillWithOrder): InvoiceDocument {
+  const { order, business } = bill;
+  const ref = orderRefFields(order);
+
+  return {
+    seller: {
+      name: business.name,
+      address: business.address,
+      gstin: business.gstin,
+      stateCode: business.stateCode,
+      logoUrl: business.logoUrl,
+    },
+    invoiceNumber: bill.invoiceNumber,
+    split:
+      bill.splitCount > 1
+        ? { index: bill.splitIndex, count: bill.splitCount }
+        : null,
+    issuedAt: bill.issuedAt ?? bill.createdAt,
+    orderId: ref.order_id,
+    ticketNumber: ref.ticket_number,
+    orderType: order.orderType,
+    tableNumber: order.tableNumber,
+    buyer: {
+      name: order.customer?.name ?? order.contactName,
+      gstin: bill.customerGstin,
+      placeOfSupply: bill.placeOfSupply,
+    },
+    isInterState: bill.isInterState,
+    lines: (bill.taxLines ?? []) as unknown as TaxedLine[],
+    rates: (bill.taxRates ?? []) as unknown as TaxBreakdown["rates"],
+    subtotal: bill.subtotal,
+    discount: bill.discount,
+    serviceChargeRate: bill.serviceChargeRate,
+    serviceCharge: bill.serviceCharge ?? 0,
+    taxableValue: bill.taxableValue,
+    cgst: bill.cgst,
+    sgst: bill.sgst,
+    igst: bill.igst,
+    roundOff: bill.roundOff,
+    grandTotal: bill.grandTotal,
+    upiUri: business.upiId
+      ? upiPaymentUri(
+          business.upiId,
+          business.name,
+          bill.grandTotal,
+          bill.invoiceNumber ?? ref.order_id
+        )
+      : null,
+  };
+}
+
+export async function loadInvoiceDocument(
+  db: PrismaLike,
+  orderId: number,
+  splitIndex = 1
+): Promise<InvoiceDocument | null> {
+  const bill = await db.bill.findUnique({
+    where: { orderId_splitIndex: { orderId, splitIndex } },
+    include: { order: { include: { customer: true } }, business: true },
+  });
+  return bill ? buildInvoiceDocument(bill) : null;
+}
@@ -0,0 +1,78 @@
+// src/utils/invoiceNumbers.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { BUSINESS_UTC_OFFSET_MINUTES } from "./orderScheduling";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Each series is numbered on its own, e.g. WV/2026-27/000123 for invoices
+// and WV-CN/2026-27/000004 for credit notes
+export type InvoiceSeries = "invoice" | "credit-note";
+
+export const DEFAULT_INVOICE_PREFIX = "INV";
+
+// Thrown when something tries to change an invoice that has been issued
+export class InvoiceImmutableError extends Error {}
+
+// Indian financial year (April to March) of a moment, in business time,
+// e.g. "2026-27"
+export function financialYearFor(date: Date): string {
+  const local = new Date(
+    date.getTime() + BUSINESS_UTC_OFFSET_MINUTES * 60 * 1000
+  );
+  const year =
+    local.getUTCMonth() >= 3
+      ? local.getUTCFullYear()
+      : local.getUTCFullYear() - 1;
+  return `${year}-${String((year + 1) % 100).padStart(2, "0")}`;
+}
+
+export const formatInvoiceNumber = (
+  prefix: string,
+  series: InvoiceSeries,
+  financialYear: string,
+  sequence: number
+) =>
+  `${series === "credit-note" ? `${prefix}-CN` : prefix}/${financialYear}/${sequence
+    .toString()
+    .padStart(6, "0")}`;
+
+// Takes the next number in the business's series for the financial year.
+// Call it inside the transaction that saves the document: the increment
+// locks the counter row until commit, so terminals billing at once queue up,
+// and a rolled-back document gives its number back. That keeps the series
+// free of gaps and duplicates.
+export async function nextInvoiceNumber(
+  db: PrismaLike,
+  businessId: number,
+  series: InvoiceSeries,
+  issuedAt: Date
+) {
+  const business = await db.business.findUniqueOrThrow({
+    where: { id: businessId },
+    select: { invoicePrefix: true },
+  });
+  const financialYear = financialYearFor(issuedAt);
+
+  await db.invoiceCounter.createMany({
+    data: [{ businessId, series, financialYear }],
+    skipDuplicates: true,
+  });
+  const counter = await db.invoiceCounter.update({
+    where: {
+      businessId_series_financialYear: { businessId, series, financialYear },
+    },
+    data: { lastNumber: { increment: 1 } },
+  });
+
+  return {
+    financialYear,
+    sequence: counter.lastNumber,
+    invoiceNumber: formatInvoiceNumber(
+      business.invoicePrefix ?? DEFAULT_INVOICE_PREFIX,
+      series,
+      financialYear,
+      counter.lastNumber
+    ),
+  };
+}
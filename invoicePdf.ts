@@ -0,0 +1,281 @@
+// src/utils/invoicePdf.ts
+
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import {
+  formatInvoiceDate,
+  formatMoney,
+  InvoiceDocument,
+} from "./invoiceDocument";
+
+const MARGIN = 40;
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+interface Column {
+  label: string;
+  width: number;
+  align: "left" | "right";
+}
+
+// Intra-state bills split GST into CGST and SGST; inter-state bills show
+// IGST in the same space
+const lineColumns = (interState: boolean): Column[] => [
+  { label: "#", width: 20, align: "left" },
+  { label: "Item", width: 135, align: "left" },
+  { label: "HSN/SAC", width: 45, align: "left" },
+  { label: "Qty", width: 30, align: "right" },
+  { label: "Rate", width: 50, align: "right" },
+  { label: "Taxable", width: 60, align: "right" },
+  { label: "GST %", width: 35, align: "right" },
+  ...(interState
+    ? [{ label: "IGST", width: 80, align: "right" as const }]
+    : [
+        { label: "CGST", width: 40, align: "right" as const },
+        { label: "SGST", width: 40, align: "right" as const },
+      ]),
+  { label: "Amount", width: 60, align: "right" },
+];
+
+// Draws one table row and returns the y below it
+function drawRow(
+  pdf: PDFKit.PDFDocument,
+  columns: Column[],
+  cells: string[],
+  y: number
+): number {
+  let x = MARGIN;
+  let height = 0;
+  columns.forEach((column, i) => {
+    const options = { width: column.width - 4, align: column.align };
+    pdf.text(cells[i] ?? "", x + 2, y, options);
+    height = Math.max(height, pdf.heightOfString(cells[i] ?? "", options));
+    x += column.width;
+  });
+  return y + height + 4;
+}
+
+const rule = (pdf: PDFKit.PDFDocument, y: number) =>
+  pdf
+    .moveTo(MARGIN, y)
+    .lineTo(PAGE_WIDTH - MARGIN, y)
+    .lineWidth(0.5)
+    .stroke();
+
+// Renders an A4 GST tax invoice. The logo is passed in already fetched, so
+// rendering never touches the network and the same document and logo
+// always give the same PDF.
+export async function renderInvoicePdf(
+  invoice: InvoiceDocument,
+  logo: Buffer | null = null
+): Promise<Buffer> {
+  const qr = invoice.upiUri
+    ? await QRCode.toBuffer(invoice.upiUri, { margin: 1, width: 240 })
+    : null;
+
+  const pdf = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    info: {
+      Title: `Invoice ${invoice.invoiceNumber ?? invoice.orderId}`,
+      Author: invoice.seller.name,
+      CreationDate: invoice.issuedAt,
+    },
+  });
+  const chunks: Buffer[] = [];
+  pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+  });
+
+  // Seller, with the logo on the left when there is one
+  let textX = MARGIN;
+  if (logo) {
+    try {
+      pdf.image(logo, MARGIN, MARGIN, { fit: [64, 64] });
+      textX = MARGIN + 76;
+    } catch {
+      // Unsupported image formats are left off rather than failing the invoice
+    }
+  }
+  pdf.font("Helvetica-Bold").fontSize(16);
+  pdf.text(invoice.seller.name, textX, MARGIN, { width: 260 });
+  pdf.font("Helvetica").fontSize(9);
+  if (invoice.seller.address) pdf.text(invoice.seller.address, { width: 260 });
+  if (invoice.seller.gstin) pdf.text(`GSTIN: ${invoice.seller.gstin}`);
+  if (invoice.seller.stateCode) {
+    pdf.text(`State code: ${invoice.seller.stateCode}`);
+  }
+  const sellerBottom = Math.max(pdf.y, logo ? MARGIN + 64 : 0);
+
+  // Invoice details on the right
+  const detailsX = PAGE_WIDTH - MARGIN - 200;
+  pdf.font("Helvetica-Bold").fontSize(14);
+  pdf.text("TAX INVOICE", detailsX, MARGIN, { width: 200, align: "right" });
+  pdf.font("Helvetica").fontSize(9);
+  const details = [
+    `Invoice no: ${invoice.invoiceNumber ?? "Not issued"}`,
+    `Date: ${formatInvoiceDate(invoice.issuedAt)}`,
+    `Order: ${invoice.orderId}` +
+      (invoice.ticketNumber ? ` (${invoice.ticketNumber})` : ""),
+    ...(invoice.split
+      ? [`Split bill ${invoice.split.index} of ${invoice.split.count}`]
+      : []),
+    invoice.tableNumber !== null
+      ? `Table: ${invoice.tableNumber}`
+      : `Order type: ${invoice.orderType}`,
+  ];
+  for (const detail of details) {
+    pdf.text(detail, detailsX, pdf.y, { width: 200, align: "right" });
+  }
+
+  // Buyer
+  let y = Math.max(sellerBottom, pdf.y) + 12;
+  rule(pdf, y);
+  y += 8;
+  pdf.font("Helvetica-Bold").text("Bill to", MARGIN, y);
+  pdf.font("Helvetica");
+  pdf.text(invoice.buyer.name ?? "Walk-in customer");
+  if (invoice.buyer.gstin) pdf.text(`GSTIN: ${invoice.buyer.gstin}`);
+  if (invoice.buyer.placeOfSupply) {
+    pdf.text(`Place of supply: ${invoice.buyer.placeOfSupply}`);
+  }
+  y = pdf.y + 12;
+
+  // Line items
+  const columns = lineColumns(invoice.isInterState);
+  const header = () => {
+    rule(pdf, y);
+    pdf.font("Helvetica-Bold").fontSize(8);
+    y = drawRow(
+      pdf,
+      columns,
+      columns.map((c) => c.label),
+      y + 4
+    );
+    rule(pdf, y);
+    y += 4;
+    pdf.font("Helvetica");
+  };
+  header();
+  invoice.lines.forEach((line, i) => {
+    if (y > PAGE_HEIGHT - MARGIN - 40) {
+      pdf.addPage();
+      y = MARGIN;
+      header();
+    }
+    y = drawRow(
+      pdf,
+      columns,
+      [
+        String(i + 1),
+        line.name,
+        line.hsnCode ?? "",
+        String(line.quantity),
+        formatMoney(line.unitPrice),
+        formatMoney(line.taxableValue),
+        `${line.rate}`,
+        ...(invoice.isInterState
+          ? [formatMoney(line.igst)]
+          : [formatMoney(line.cgst), formatMoney(line.sgst)]),
+        formatMoney(line.total),
+      ],
+      y
+    );
+  });
+  rule(pdf, y);
+  y += 12;
+
+  // Summary per GST rate, then the totals
+  if (y > PAGE_HEIGHT - MARGIN - 220) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  const rateColumns: Column[] = [
+    { label: "GST %", width: 50, align: "right" },
+    { label: "Taxable", width: 70, align: "right" },
+    ...(invoice.isInterState
+      ? [{ label: "IGST", width: 70, align: "right" as const }]
+      : [
+          { label: "CGST", width: 60, align: "right" as const },
+          { label: "SGST", width: 60, align: "right" as const },
+        ]),
+  ];
+  const summaryTop = y;
+  pdf.font("Helvetica-Bold").fontSize(8);
+  y = drawRow(
+    pdf,
+    rateColumns,
+    rateColumns.map((c) => c.label),
+    y
+  );
+  pdf.font("Helvetica");
+  for (const rate of invoice.rates) {
+    y = drawRow(
+      pdf,
+      rateColumns,
+      [
+        `${rate.rate}`,
+        formatMoney(rate.taxableValue),
+        ...(invoice.isInterState
+          ? [formatMoney(rate.igst)]
+          : [formatMoney(rate.cgst), formatMoney(rate.sgst)]),
+      ],
+      y
+    );
+  }
+
+  const totals: [string, number][] = [["Subtotal", invoice.subtotal]];
+  if (invoice.discount) totals.push(["Discount", -invoice.discount]);
+  if (invoice.serviceCharge) {
+    totals.push([
+      `Service charge (${invoice.serviceChargeRate}%)`,
+      invoice.serviceCharge,
+    ]);
+  }
+  totals.push(["Taxable value", invoice.taxableValue]);
+  if (invoice.isInterState) {
+    totals.push(["IGST", invoice.igst]);
+  } else {
+    totals.push(["CGST", invoice.cgst], ["SGST", invoice.sgst]);
+  }
+  if (invoice.roundOff) totals.push(["Round off", invoice.roundOff]);
+
+  const totalsX = PAGE_WIDTH - MARGIN - 220;
+  let totalsY = summaryTop;
+  pdf.fontSize(9);
+  for (const [label, amount] of totals) {
+    pdf.text(label, totalsX, totalsY, { width: 140 });
+    pdf.text(formatMoney(amount), totalsX + 140, totalsY, {
+      width: 80,
+      align: "right",
+    });
+    totalsY += 14;
+  }
+  pdf.font("Helvetica-Bold").fontSize(11);
+  pdf.text("Grand total (INR)", totalsX, totalsY + 4, { width: 140 });
+  pdf.text(formatMoney(invoice.grandTotal), totalsX + 140, totalsY + 4, {
+    width: 80,
+    align: "right",
+  });
+  y = Math.max(y, totalsY + 24) + 16;
+
+  if (qr) {
+    pdf.image(qr, MARGIN, y, { width: 96 });
+    pdf.font("Helvetica").fontSize(8);
+    pdf.text("Scan to pay with any UPI app", MARGIN, y + 100, { width: 120 });
+  }
+
+  pdf.font("Helvetica").fontSize(7);
+  pdf.text(
+    "This is a computer-generated invoice.",
+    MARGIN,
+    PAGE_HEIGHT - MARGIN - 10,
+    { width: CONTENT_WIDTH, align: "center", lineBreak: false }
+  );
+
+  pdf.end();
+  return done;
+}
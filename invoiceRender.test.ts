@@ -0,0 +1,153 @@
+// src/utils/invoiceRender.test.ts
+//
+// Renders a fixed invoice and compares the bytes with the golden files in
+// __golden__. After an intended layout change, run with UPDATE_GOLDEN=1 and
+// commit the regenerated files.
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { test } from "node:test";
+import { renderEscPosReceipt } from "./escposReceipt";
+import { InvoiceDocument, upiPaymentUri } from "./invoiceDocument";
+import { renderInvoicePdf } from "./invoicePdf";
+
+const GOLDEN_DIR = path.join(__dirname, "__golden__");
+
+// Fixed date, no logo and the PDF's built-in Helvetica, so nothing depends
+// on the clock, the network or the fonts installed on the machine
+const invoice: InvoiceDocument = {
+  seller: {
+    name: "Willow Cafe",
+    address: "12 MG Road, Bengaluru 560001",
+    gstin: "29ABCDE1234F1Z5",
+    stateCode: "29",
+    logoUrl: null,
+  },
+  invoiceNumber: "WC/2026-27/000042",
+  split: null,
+  issuedAt: new Date("2026-07-14T14:35:00.000Z"),
+  orderId: "ORD-00042",
+  ticketNumber: "#17",
+  orderType: "dine-in",
+  tableNumber: 4,
+  buyer: { name: "Asha Rao", gstin: null, placeOfSupply: "29" },
+  isInterState: false,
+  lines: [
+    {
+      orderItemId: 101,
+      productId: 1,
+      name: "Paneer Tikka",
+      quantity: 2,
+      unitPrice: 240,
+      taxClass: "Restaurant 5%",
+      hsnCode: "996331",
+      gross: 480,
+      discount: 48,
+      serviceCharge: 21.6,
+      taxableValue: 453.6,
+      rate: 5,
+      cgst: 11.34,
+      sgst: 11.34,
+      igst: 0,
+      total: 476.28,
+    },
+    {
+      orderItemId: 102,
+      productId: 2,
+      name: "Masala Chai",
+      quantity: 3,
+      unitPrice: 40,
+      taxClass: "Restaurant 5%",
+      hsnCode: "996331",
+      gross: 120,
+      discount: 12,
+      serviceCharge: 5.4,
+      taxableValue: 113.4,
+      rate: 5,
+      cgst: 2.84,
+      sgst: 2.83,
+      igst: 0,
+      total: 119.07,
+    },
+  ],
+  rates: [{ rate: 5, taxableValue: 567, cgst: 14.18, sgst: 14.17, igst: 0 }],
+  subtotal: 600,
+  discount: 60,
+  serviceChargeRate: 5,
+  serviceCharge: 27,
+  taxableValue: 567,
+  cgst: 14.18,
+  sgst: 14.17,
+  igst: 0,
+  roundOff: -0.35,
+  grandTotal: 595,
+  upiUri: upiPaymentUri(
+    "willowcafe@okaxis",
+    "Willow Cafe",
+    595,
+    "Invoice WC/2026-27/000042"
+  ),
+};
+
+function assertGolden(name: string, actual: Buffer) {
+  const file = path.join(GOLDEN_DIR, name);
+  if (process.env.UPDATE_GOLDEN) {
+    fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+    fs.writeFileSync(file, actual);
+    return;
+  }
+  assert.ok(
+    fs.existsSync(file),
+    `${name} is missing; run with UPDATE_GOLDEN=1`
+  );
+  assert.ok(
+    actual.equals(fs.readFileSync(file)),
+    `${name} differs from the golden file`
+  );
+}
+
+test("A4 invoice PDF matches the golden file", async () => {
+  assertGolden("invoice-a4.pdf", await renderInvoicePdf(invoice));
+});
+
+test("the same invoice always renders to the same PDF", async () => {
+  const [first, second] = await Promise.all([
+    renderInvoicePdf(invoice),
+    renderInvoicePdf(invoice),
+  ]);
+  assert.ok(first.equals(second));
+});
+
+test("80 mm ESC/POS receipt matches the golden file", () => {
+  assertGolden("receipt-80mm.bin", renderEscPosReceipt(invoice, 80));
+});
+
+test("58 mm ESC/POS receipt matches the golden file", () => {
+  assertGolden("receipt-58mm.bin", renderEscPosReceipt(invoice, 58));
+});
+
+test("inter-state split receipt matches the golden file", () => {
+  const interState: InvoiceDocument = {
+    ...invoice,
+    split: { index: 2, count: 3 },
+    buyer: {
+      name: "Acme Travels",
+      gstin: "27AAACA1234B1Z2",
+      placeOfSupply: "27",
+    },
+    isInterState: true,
+    lines: invoice.lines.map((line) => ({
+      ...line,
+      cgst: 0,
+      sgst: 0,
+      igst: line.cgst + line.sgst,
+    })),
+    rates: [{ rate: 5, taxableValue: 567, cgst: 0, sgst: 0, igst: 28.35 }],
+    cgst: 0,
+    sgst: 0,
+    igst: 28.35,
+    upiUri: null,
+  };
+  assertGolden("receipt-80mm-igst-split.bin", renderEscPosReceipt(interState));
+});
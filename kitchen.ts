@@ -0,0 +1,365 @@
+import { Router, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  authenticateBusinessOwnerJWT,
+  BusinessOwnerRequest,
+} from "../middleware/authenticateJWT";
+import { authorizeRoles } from "../middleware/authorizeRoles";
+import {
+  CLOSED_ORDER_STATUSES,
+  InvalidStatusTransitionError,
+  parseItemStatus,
+  staffActor,
+  transitionItems,
+} from "../utils/orderStatus";
+import {
+  publishOrderEvent,
+  publishOrderStatusChange,
+} from "../utils/orderEvents";
+import { kitchenVisibleFilter } from "../utils/orderScheduling";
+import { orderRefFields, parseOrderRef } from "../utils/orderRefs";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const parseCategories = (categories: unknown): string[] | undefined => {
+  if (categories === undefined) return undefined;
+  const list = Array.isArray(categories)
+    ? categories
+    : String(categories).split(",");
+  return list.map((c) => String(c).trim()).filter((c) => c.length > 0);
+};
+
+// ✅ Create a kitchen station (tandoor, chinese, bar, ...)
+router.post(
+  "/stations",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const { name, categories, isDefault } = req.body;
+
+      if (!businessId) {
+        res.status(400).json({ error: "Business ID missing in token" });
+        return;
+      }
+
+      if (!name) {
+        res.status(400).json({ error: "Station name is required" });
+        return;
+      }
+
+      const station = await prisma.$transaction(async (tx) => {
+        // Only one station can catch unmapped items
+        if (isDefault) {
+          await tx.kitchenStation.updateMany({
+            where: { businessId },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.kitchenStation.create({
+          data: {
+            businessId,
+            name,
+            categories: parseCategories(categories) ?? [],
+            isDefault: Boolean(isDefault),
+          },
+        });
+      });
+
+      res.status(201).json(station);
+    } catch (error: any) {
+      if (error.code === "P2002") {
+        res.status(400).json({ error: "A station with this name exists" });
+        return;
+      }
+      console.error("Error creating kitchen station:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ List kitchen stations for the logged-in business
+router.get(
+  "/stations",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+
+      if (!businessId) {
+        res.status(400).json({ error: "Business ID missing in token" });
+        return;
+      }
+
+      const stations = await prisma.kitchenStation.findMany({
+        where: { businessId },
+        orderBy: { name: "asc" },
+      });
+
+      res.json(stations);
+    } catch (error) {
+      console.error("Error fetching kitchen stations:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ Update station name or category mapping
+router.put(
+  "/stations/:id",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const id = Number(req.params.id);
+      const businessId = req.businessOwner?.businessId;
+      const { name, categories, isDefault } = req.body;
+
+      const station = await prisma.kitchenStation.findUnique({
+        where: { id },
+      });
+
+      if (!station || station.businessId !== businessId) {
+        res.status(404).json({ error: "Station not found or unauthorized" });
+        return;
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (isDefault) {
+          await tx.kitchenStation.updateMany({
+            where: { businessId, id: { not: id } },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.kitchenStation.update({
+          where: { id },
+          data: {
+            name,
+            categories: parseCategories(categories),
+            isDefault: isDefault !== undefined ? Boolean(isDefault) : undefined,
+          },
+        });
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating kitchen station:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ Delete station; its open items become unassigned
+router.delete(
+  "/stations/:id",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const id = Number(req.params.id);
+      const businessId = req.businessOwner?.businessId;
+
+      const station = await prisma.kitchenStation.findUnique({
+        where: { id },
+      });
+
+      if (!station || station.businessId !== businessId) {
+        res.status(404).json({ error: "Station not found or unauthorized" });
+        return;
+      }
+
+      await prisma.kitchenStation.delete({ where: { id } });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting kitchen station:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ Open tickets, optionally for one station (?station=<id>|unassigned)
+router.get(
+  "/tickets",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const stationQuery = req.query.station as string | undefined;
+
+      if (!businessId) {
+        res.status(400).json({ error: "Business ID missing in token" });
+        return;
+      }
+
+      let stationFilter: { stationId?: number | null } = {};
+      if (stationQuery === "unassigned") {
+        stationFilter = { stationId: null };
+      } else if (stationQuery) {
+        const stationId = Number(stationQuery);
+        if (isNaN(stationId)) {
+          res.status(400).json({ error: "Invalid station" });
+          return;
+        }
+        stationFilter = { stationId };
+      }
+
+      const business = await prisma.business.findUnique({
+        where: { id: businessId },
+        select: { preorderLeadMinutes: true },
+      });
+
+      const itemFilter = {
+        ...stationFilter,
+        status: { notIn: ["Served", "Completed", "Cancelled"] },
+      };
+
+      const orders = await prisma.order.findMany({
+        where: {
+          businessId,
+          status: { notIn: CLOSED_ORDER_STATUSES },
+          items: { some: itemFilter },
+          // Pre-orders stay off the screen until their lead time
+          ...kitchenVisibleFilter(business?.preorderLeadMinutes ?? 0),
+        },
+        include: {
+          items: { where: itemFilter, include: { station: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+
+      const tickets = orders.map((order) => ({
+        id: order.id,
+        ...orderRefFields(order),
+        order_type: order.orderType,
+        table_number: order.tableNumber,
+        status: order.status,
+        scheduled_for: order.scheduledFor,
+        created_at: order.createdAt,
+        items: order.items.map((item) => ({
+          id: item.id,
+          productId: item.productId,
+          name: item.name,
+          variant: item.variantName,
+          quantity: item.quantity,
+          modifiers: item.modifiers ?? [],
+          note: item.note,
+          status: item.status,
+          stationId: item.stationId,
+          station: item.station?.name ?? null,
+        })),
+      }));
+
+      res.json(tickets);
+    } catch (error) {
+      console.error("Error fetching kitchen tickets:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ Bump every live item of one station on an order
+router.patch(
+  "/stations/:id/orders/:orderId/bump",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const stationId = Number(req.params.id);
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+      const status = parseItemStatus(req.body.status ?? "Ready");
+
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      if (!status) {
+        res.status(400).json({ error: "Invalid item status" });
+        return;
+      }
+
+      // Bumping only moves food forward; voids need a manager and a reason
+      if (status === "Cancelled") {
+        res.status(400).json({
+          error: `Void items with POST /api/orders/${req.params.orderId}/items/:itemId/void`,
+        });
+        return;
+      }
+
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { items: true },
+      });
+
+      if (!order || order.businessId !== businessId) {
+        res.status(403).json({ error: "Not allowed to update this order" });
+        return;
+      }
+
+      const stationItems = order.items.filter((item) => {
+        const itemStatus = parseItemStatus(item.status);
+        return (
+          item.stationId === stationId &&
+          itemStatus !== "Served" &&
+          itemStatus !== "Cancelled" &&
+          itemStatus !== status
+        );
+      });
+
+      if (stationItems.length === 0) {
+        res.status(404).json({ error: "No open items for this station" });
+        return;
+      }
+
+      const orderStatus = await prisma.$transaction((tx) =>
+        transitionItems(
+          tx,
+          orderId,
+          stationItems.map((item) => item.id),
+          status,
+          staffActor(req.businessOwner)
+        )
+      );
+
+      publishOrderEvent(businessId, "item-status-changed", {
+        ...orderRefFields(order),
+        id: orderId,
+        items: stationItems.map((item) => ({
+          id: item.id,
+          productId: item.productId,
+          stationId,
+          status,
+        })),
+        orderStatus,
+      });
+      await publishOrderStatusChange(
+        prisma,
+        order,
+        order.status,
+        orderStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+
+      res.json({
+        message: "Station items bumped",
+        stationId,
+        status,
+        orderStatus,
+      });
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error("Error bumping station items:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
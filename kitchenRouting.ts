@@ -0,0 +1,31 @@
+// src/utils/kitchenRouting.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export type StationRouter = (category: string | null) => number | null;
+
+// Builds a category -> station lookup for one business. Matching is
+// case-insensitive; unmapped categories go to the default station, if any.
+export async function loadStationRouter(
+  db: PrismaLike,
+  businessId: number
+): Promise<StationRouter> {
+  const stations = await db.kitchenStation.findMany({
+    where: { businessId },
+    orderBy: { id: "asc" },
+  });
+
+  const byCategory = new Map<string, number>();
+  for (const station of stations) {
+    for (const category of station.categories) {
+      const key = category.trim().toLowerCase();
+      if (!byCategory.has(key)) byCategory.set(key, station.id);
+    }
+  }
+  const fallback = stations.find((station) => station.isDefault)?.id ?? null;
+
+  return (category) =>
+    (category && byCategory.get(category.trim().toLowerCase())) || fallback;
+}
@@ -1,474 +1,744 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import { PrismaClient } from "@prisma/client";
 import {
   authenticateBusinessOwnerJWT,
   BusinessOwnerRequest,
+  BusinessOwnerPayload,
   authenticateCustomerJWT,
   CustomerRequest,
   CustomerPayload, // ✅ ADD THIS
+  optionalCustomerJWT,
 } from "../middleware/authenticateJWT";
 import jwt from "jsonwebtoken";
 import { startOfDay, endOfDay, isValid, parse } from "date-fns";
+import {
+  formatPricing,
+  OrderPricingError,
+  priceOrder,
+  roundMoney,
+} from "../utils/orderPricing";
+import {
+  InvalidStatusTransitionError,
+  parseItemStatus,
+  parseOrderStatus,
+  recordOrderCreated,
+  staffActor,
+  transitionItems,
+  transitionOrder,
+} from "../utils/orderStatus";
+import {
+  eventsSince,
+  publishOrderEvent,
+  publishOrderStatusChange,
+  publishTableStatus,
+  subscribeOrderEvents,
+  writeSseEvent,
+} from "../utils/orderEvents";
+import { loadStationRouter } from "../utils/kitchenRouting";
+import { adjustInventory } from "../utils/inventoryUsage";
+import {
+  cancelOrder,
+  OrderReversalError,
+  parseReason,
+  voidOrderItem,
+} from "../utils/orderReversal";
+import { authorizeRoles } from "../middleware/authorizeRoles";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  hashRequest,
+  releaseIdempotencyKey,
+} from "../utils/idempotency";
+import { parseOrderType } from "../utils/orderTypes";
+import {
+  listSlots,
+  OrderSchedulingError,
+  parseScheduledFor,
+  reserveSlot,
+  SlotFullError,
+} from "../utils/orderScheduling";
+import {
+  createTrackingToken,
+  trackingView,
+  verifyTrackingToken,
+} from "../utils/orderTracking";
+import {
+  formatOrderRef,
+  nextDailyNumber,
+  orderRefFields,
+  parseOrderRef,
+  serviceDateFor,
+} from "../utils/orderRefs";
+import { OrderSearchError, searchOrders } from "../utils/orderSearch";
+import {
+  mergeTables,
+  splitOrder,
+  TableOperationError,
+  transferOrder,
+} from "../utils/tableOperations";
+import {
+  addOrderItems,
+  changeItemQuantity,
+  OrderEditError,
+  orderItemData,
+  removeOrderItem,
+} from "../utils/orderEdits";
+import { findTokenCustomer } from "../utils/customerOrders";
+import {
+  FeedbackError,
+  FeedbackExistsError,
+  submitFeedback,
+} from "../utils/orderFeedback";
 
 const prisma = new PrismaClient();
 const router = Router();
 
 // ✅ POST: Create a new order (no auth)
-router.post("/", async (req: Request, res: Response): Promise<void> => {
-  try {
-    // 👇 Try to extract customer token (without forcing auth)
-    let customerId: number | undefined = undefined;
-    const authHeader = req.headers.authorization;
-    if (authHeader?.startsWith("Bearer ")) {
-      const token = authHeader.split(" ")[1];
-      const secret = process.env.JWT_SECRET || "your-secret-key";
-      try {
-        const decoded = jwt.verify(token, secret) as {
-          id: number;
-          email: string;
-          businessId: number;
-        };
-        customerId = decoded.id;
-      } catch (err) {
-        console.warn("🟡 JWT verification failed — continuing as guest");
+router.post(
+  "/",
+  optionalCustomerJWT,
+  async (req: CustomerRequest, res: Response): Promise<void> => {
+    let idempotencyClaimId: number | undefined = undefined;
+    try {
+      const {
+        businessId,
+        table_number,
+        cart_items,
+        payment_method,
+        estimated_time,
+        pointsUsed, // 👈 add this
+        coupon_code,
+        order_type,
+        contact_name,
+        contact_phone,
+        delivery_address,
+        scheduled_for,
+      } = req.body;
+      console.log("Incoming Order Data:", req.body);
+      console.log("Creating order with cart_items:", cart_items);
+
+      if (!businessId) {
+        res.status(400).json({ message: "Missing business ID" });
+        return;
       }
-    }
-    const {
-      businessId,
-      table_number,
-      cart_items,
-      total_amount,
-      payment_method,
-      estimated_time,
-      pointsUsed, // 👈 add this
-    } = req.body;
-    console.log("Incoming Order Data:", req.body);
-    console.log("Creating order with cart_items:", cart_items);
 
-    if (!businessId) {
-      res.status(400).json({ message: "Missing business ID" });
-      return;
-    }
+      // Pre-orders carry a slot instead of an estimated time
+      if (
+        !businessId ||
+        !cart_items ||
+        !payment_method ||
+        (!estimated_time && !scheduled_for)
+      ) {
+        res.status(400).json({ message: "Missing required fields" });
+        return;
+      }
 
-    if (
-      !businessId ||
-      !table_number ||
-      !cart_items ||
-      !total_amount ||
-      !payment_method ||
-      !estimated_time
-    ) {
-      res.status(400).json({ message: "Missing required fields" });
-      return;
-    }
+      const orderType = parseOrderType(order_type);
+      if (!orderType) {
+        res.status(400).json({ message: "Invalid order type" });
+        return;
+      }
 
-    if (!Array.isArray(cart_items) || cart_items.length === 0) {
-      res.status(400).json({ message: "Cart items must be a non-empty array" });
-      return;
-    }
+      // 👇 Only dine-in orders sit at a table; delivery needs somewhere to go
+      if (orderType === "dine-in" && !table_number) {
+        res
+          .status(400)
+          .json({ message: "Table number is required for dine-in" });
+        return;
+      }
+      if (orderType === "delivery" && (!delivery_address || !contact_phone)) {
+        res.status(400).json({
+          message:
+            "Delivery address and contact phone are required for delivery",
+        });
+        return;
+      }
 
-    const order = await prisma.order.create({
-      data: {
-        tableNumber: Number(table_number),
-        totalAmount: Number(total_amount),
-        paymentMethod: payment_method,
-        estimatedTime: estimated_time,
-        status: "Pending",
-        businessId: Number(businessId),
-        customerId,
-        items: {
-          create: cart_items.map((item: any) => ({
-            productId: item.productId, // ✅ matches incoming data
-            quantity: item.quantity,
-            price: item.price,
-            name: item.name,
-            status: "Pending", // ✅ Set default status for items
-          })),
-        },
-      },
-      include: { items: true },
-    });
+      if (!Array.isArray(cart_items) || cart_items.length === 0) {
+        res
+          .status(400)
+          .json({ message: "Cart items must be a non-empty array" });
+        return;
+      }
 
-    if (customerId && pointsUsed && pointsUsed > 0) {
-      const customer = await prisma.customer.findUnique({
-        where: { id: customerId },
-      });
+      // 👇 Logged-in customers are linked by their token; guests stay anonymous
+      let customerId: number | undefined = undefined;
+      if (req.customer && req.customer.businessId === Number(businessId)) {
+        const customer = await findTokenCustomer(prisma, req.customer);
+        customerId = customer?.id;
+      }
 
-      if (customer && (customer.points ?? 0) >= pointsUsed) {
-        await prisma.customer.update({
-          where: { id: customerId },
-          data: {
-            points: {
-              decrement: pointsUsed,
-            },
-          },
+      let scheduledFor: Date | null = null;
+      let slotCapacity: number | null = null;
+      // Pre-orders already within the lead time go straight to the kitchen;
+      // later ones are announced by releaseScheduledOrders when they are due
+      let releasedAt: Date | null = null;
+      if (scheduled_for) {
+        const business = await prisma.business.findUnique({
+          where: { id: Number(businessId) },
         });
-      } else {
-        console.warn("❌ Not enough points or customer not found.");
+        if (!business) {
+          res.status(404).json({ message: "Business not found" });
+          return;
+        }
+        scheduledFor = parseScheduledFor(scheduled_for, business);
+        slotCapacity = business.preorderSlotCapacity;
+        const now = new Date();
+        if (
+          scheduledFor.getTime() - business.preorderLeadMinutes * 60 * 1000 <=
+          now.getTime()
+        ) {
+          releasedAt = now;
+        }
       }
-    }
 
-    if (customerId) {
-      const earnedPoints = Math.floor(Number(total_amount) / 100);
+      // 👇 Double-taps and retries on flaky Wi-Fi resend the same key
+      const idempotencyKey = req.header("Idempotency-Key")?.trim();
+      if (idempotencyKey) {
+        const claim = await claimIdempotencyKey(
+          prisma,
+          Number(businessId),
+          idempotencyKey,
+          hashRequest(req.body)
+        );
 
-      await prisma.customer.update({
-        where: { id: customerId },
-        data: {
-          totalOrders: { increment: 1 },
-          totalMoneySpent: { increment: Number(total_amount) },
-          points: { increment: earnedPoints },
-        },
-      });
-    }
-    // ✅ After order is created, update inventory stock
-    for (const item of cart_items) {
-      const dish = await prisma.product.findUnique({
-        where: { id: item.productId },
-      });
-
-      let ingredients: any[] = [];
-      if (dish?.metadata) {
-        let metadataObj: any;
-        if (typeof dish.metadata === "string") {
-          try {
-            metadataObj = JSON.parse(dish.metadata);
-          } catch (e) {
-            metadataObj = {};
-          }
-        } else {
-          metadataObj = dish.metadata;
+        if (claim.state === "replay") {
+          res.status(claim.statusCode).json(claim.response);
+          return;
+        }
+        if (claim.state === "mismatch") {
+          res.status(422).json({
+            message: "Idempotency-Key was already used for a different order",
+          });
+          return;
+        }
+        if (claim.state === "in-progress") {
+          res
+            .status(409)
+            .json({ message: "This order is still being placed, please wait" });
+          return;
         }
-        ingredients = metadataObj?.ingredients || [];
+        idempotencyClaimId = claim.id;
       }
 
-      for (const ing of ingredients) {
-        const quantityToDeduct = Number(ing.quantity) * item.quantity;
+      // ✅ Everything below commits together or not at all
+      const { order, pricing, responseBody } = await prisma.$transaction(
+        async (tx) => {
+          let availablePoints: number | undefined = undefined;
+          if (customerId) {
+            const customer = await tx.customer.findUnique({
+              where: { id: customerId },
+            });
+            availablePoints = customer?.points;
+          }
 
-        if (!isNaN(quantityToDeduct)) {
-          await prisma.inventoryItem.updateMany({
-            where: {
-              name: ing.name,
-              businessId: Number(businessId),
-            },
+          // ✅ Prices, coupon, points and tax all come from the database
+          const pricing = await priceOrder(tx, {
+            businessId: Number(businessId),
+            orderType,
+            cartItems: cart_items,
+            couponCode: coupon_code,
+            pointsUsed,
+            availablePoints,
+          });
+          const routeToStation = await loadStationRouter(
+            tx,
+            Number(businessId)
+          );
+
+          const earnedPoints = customerId ? Math.floor(pricing.total / 100) : 0;
+
+          // Pre-orders are numbered in the day they will be cooked
+          const serviceDate = serviceDateFor(scheduledFor ?? new Date());
+          const dailyNumber = await nextDailyNumber(
+            tx,
+            Number(businessId),
+            serviceDate
+          );
+
+          const order = await tx.order.create({
             data: {
-              quantity: {
-                decrement: quantityToDeduct,
+              orderType,
+              tableNumber:
+                orderType === "dine-in" ? Number(table_number) : null,
+              contactName: contact_name || null,
+              contactPhone: contact_phone || null,
+              deliveryAddress:
+                orderType === "delivery" ? String(delivery_address) : null,
+              packagingCharge: pricing.packagingCharge,
+              deliveryFee: pricing.deliveryFee,
+              discountAmount: roundMoney(
+                pricing.couponDiscount + pricing.pointsDiscount
+              ),
+              couponId: pricing.coupon?.id ?? null,
+              subtotal: pricing.subtotal,
+              totalAmount: pricing.total,
+              pointsRedeemed: pricing.pointsRedeemed,
+              pointsEarned: earnedPoints,
+              paymentMethod: payment_method,
+              estimatedTime: estimated_time,
+              scheduledFor,
+              releasedAt,
+              serviceDate,
+              dailyNumber,
+              status: "Pending",
+              businessId: Number(businessId),
+              customerId,
+              items: {
+                createMany: {
+                  data: pricing.lines.map((line) =>
+                    orderItemData(line, routeToStation(line.category))
+                  ),
+                },
               },
             },
+            include: { items: true },
           });
-        }
+
+          await recordOrderCreated(tx, order.id, {
+            type: "customer",
+            id: customerId,
+          });
+
+          if (scheduledFor) {
+            await reserveSlot(
+              tx,
+              Number(businessId),
+              scheduledFor,
+              slotCapacity
+            );
+          }
+
+          // Guarded so two guests can't both take the last coupon use
+          if (pricing.coupon) {
+            const { count } = await tx.coupon.updateMany({
+              where: {
+                id: pricing.coupon.id,
+                usedCount: { lt: pricing.coupon.usageLimit },
+              },
+              data: { usedCount: { increment: 1 } },
+            });
+            if (count === 0) {
+              throw new OrderPricingError("Coupon usage limit reached");
+            }
+          }
+
+          // Guarded so concurrent orders can't spend the same points twice
+          if (customerId) {
+            const { count } = await tx.customer.updateMany({
+              where: {
+                id: customerId,
+                points: { gte: pricing.pointsRedeemed },
+              },
+              data: {
+                totalOrders: { increment: 1 },
+                totalMoneySpent: { increment: pricing.total },
+                points: { increment: earnedPoints - pricing.pointsRedeemed },
+              },
+            });
+            if (count === 0 && pricing.pointsRedeemed > 0) {
+              throw new OrderPricingError("Not enough loyalty points");
+            }
+          }
+
+          // ✅ Update inventory stock
+          await adjustInventory(
+            tx,
+            Number(businessId),
+            pricing.lines,
+            "deduct"
+          );
+
+          const responseBody = {
+            ...orderRefFields(order),
+            order_type: order.orderType,
+            table_number: order.tableNumber,
+            status: order.status,
+            message: "Order placed successfully",
+            estimated_time: order.estimatedTime,
+            scheduled_for: order.scheduledFor,
+            created_at: order.createdAt,
+            items: order.items,
+            total_amount: order.totalAmount,
+            pricing: formatPricing(pricing),
+            // 👇 Needed for GET /api/orders/:orderId; share only with this guest
+            tracking_token: createTrackingToken(order.id, order.businessId),
+          };
+
+          if (idempotencyClaimId) {
+            await completeIdempotencyKey(
+              tx,
+              idempotencyClaimId,
+              201,
+              responseBody
+            );
+          }
+
+          return { order, pricing, responseBody };
+        },
+        { maxWait: 5000, timeout: 15000 }
+      );
+
+      if (!order.scheduledFor || order.releasedAt) {
+        publishOrderEvent(order.businessId, "order-created", {
+          ...orderRefFields(order),
+          id: order.id,
+          order_type: order.orderType,
+          table_number: order.tableNumber,
+          status: order.status,
+          estimated_time: order.estimatedTime,
+          scheduled_for: order.scheduledFor,
+          created_at: order.createdAt,
+          items: order.items,
+        });
       }
-    }
+      // The order is committed; a failed broadcast must not fail the request
+      await publishTableStatus(
+        prisma,
+        order.businessId,
+        order.tableNumber
+      ).catch((err) =>
+        console.error("❌ Failed to publish table status:", err)
+      );
 
-    res.status(201).json({
-      order_id: `ORD${order.id.toString().padStart(5, "0")}`,
-      table_number: order.tableNumber,
-      status: order.status,
-      message: "Order placed successfully",
-      estimated_time: order.estimatedTime,
-      created_at: order.createdAt,
-      items: order.items,
-    });
-  } catch (error) {
-    console.error("❌ Error placing order:", error);
-    res.status(500).json({ message: "Server error while creating order" });
+      res.status(201).json(responseBody);
+    } catch (error) {
+      if (idempotencyClaimId) {
+        await releaseIdempotencyKey(prisma, idempotencyClaimId).catch((err) =>
+          console.error("❌ Failed to release idempotency key:", err)
+        );
+      }
+      if (error instanceof SlotFullError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      if (
+        error instanceof OrderPricingError ||
+        error instanceof OrderSchedulingError
+      ) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      console.error("❌ Error placing order:", error);
+      res.status(500).json({ message: "Server error while creating order" });
+    }
   }
-});
+);
 
-// Fixed GET route for orders with proper date filtering
-// COMPLETELY FIXED GET route for exact date filtering
+// ✅ GET: Order history with filters and cursor pagination
+// GET /api/orders?from=2025-07-01&to=2025-07-07&status=Paid,Served&table=4
+//   &paymentMethod=upi&customer=asha&minAmount=100&maxAmount=900
+//   &product=paneer&sort=-totalAmount&limit=50&cursor=<nextCursor>
 router.get(
   "/",
   authenticateBusinessOwnerJWT,
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
       const businessId = req.businessOwner?.businessId;
-      const dateQuery = req.query.date as string;
 
       if (!businessId) {
         res.status(401).json({ message: "Unauthorized" });
         return;
       }
 
-      let whereClause: any = {
+      const { orders, nextCursor } = await searchOrders(
+        prisma,
         businessId,
-      };
-
-      if (dateQuery) {
-        console.log("🗓️ Date query received:", dateQuery);
-
-        // Parse date in IST timezone
-        const [year, month, day] = dateQuery.split("-").map(Number);
-
-        // Create start and end of day in IST
-        // Start: 00:00:00 IST of selected date
-        const startOfDayIST = new Date();
-        startOfDayIST.setFullYear(year, month - 1, day);
-        startOfDayIST.setHours(0, 0, 0, 0);
-
-        // End: 23:59:59 IST of selected date
-        const endOfDayIST = new Date();
-        endOfDayIST.setFullYear(year, month - 1, day);
-        endOfDayIST.setHours(23, 59, 59, 999);
-
-        // Convert IST to UTC for database query
-        // IST is UTC+5:30, so subtract 5.5 hours to get UTC
-        const startUTC = new Date(
-          startOfDayIST.getTime() - 5.5 * 60 * 60 * 1000
-        );
-        const endUTC = new Date(endOfDayIST.getTime() - 5.5 * 60 * 60 * 1000);
-
-        whereClause.createdAt = {
-          gte: startUTC,
-          lte: endUTC,
-        };
-
-        console.log("📅 Date filtering:", {
-          selectedDate: dateQuery,
-          startIST: startOfDayIST.toLocaleString("en-IN", {
-            timeZone: "Asia/Kolkata",
-          }),
-          endIST: endOfDayIST.toLocaleString("en-IN", {
-            timeZone: "Asia/Kolkata",
-          }),
-          startUTC: startUTC.toISOString(),
-          endUTC: endUTC.toISOString(),
-        });
-      }
-
-      console.log("🔍 Fetching orders for businessId:", businessId);
-
-      const orders = await prisma.order.findMany({
-        where: whereClause,
-        include: { items: true },
-        orderBy: { createdAt: "desc" },
-      });
-
-      console.log(`📊 Found ${orders.length} orders`);
-
-      // Log each order's creation date for debugging
-      orders.forEach((order) => {
-        console.log(
-          `Order ${order.id} created at:`,
-          order.createdAt.toLocaleString("en-IN", { timeZone: "Asia/Kolkata" })
-        );
-      });
+        req.query,
+        { items: true }
+      );
 
       // Format response to match frontend expectations
       const formatted = orders.map((order) => {
-        const allItemsCompleted = order.items.every(
-          (item) => item.status === "Completed"
-        );
-        const orderStatus =
-          allItemsCompleted && order.items.length > 0 ? "Completed" : "Pending";
-
         return {
           id: order.id,
-          order_id: `ORD${order.id.toString().padStart(5, "0")}`,
+          ...orderRefFields(order),
+          dailyNumber: order.dailyNumber,
+          orderType: order.orderType,
+          order_type: order.orderType,
           tableNumber: order.tableNumber,
           table_number: order.tableNumber,
+          contactName: order.contactName,
+          contactPhone: order.contactPhone,
+          deliveryAddress: order.deliveryAddress,
           totalAmount: order.totalAmount,
           total_amount: order.totalAmount,
           paymentMethod: order.paymentMethod,
           payment_method: order.paymentMethod,
-          status: orderStatus,
+          status: order.status,
           estimatedTime: order.estimatedTime,
           estimated_time: order.estimatedTime,
+          scheduledFor: order.scheduledFor,
+          scheduled_for: order.scheduledFor,
           createdAt: order.createdAt,
           created_at: order.createdAt,
           items: order.items,
         };
       });
 
-      res.status(200).json(formatted);
+      res.status(200).json({ orders: formatted, nextCursor });
     } catch (error) {
+      if (error instanceof OrderSearchError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
       console.error("❌ Error fetching orders:", error);
       res.status(500).json({ message: "Server error while fetching orders" });
     }
   }
 );
 
-// ✅ GET: Fetch specific order (auth required)
-router.get("/:orderId", async (req: Request, res: Response): Promise<void> => {
-  const rawId = req.params.orderId;
-  const orderId = parseInt(rawId.replace("ORD", ""), 10);
+// ✅ GET: Pre-order slots for a day (no auth)
+// GET /api/orders/slots?businessId=1&date=2025-07-01
+router.get("/slots", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const businessId = Number(req.query.businessId);
+    const date = req.query.date as string;
 
-  const order = await prisma.order.findUnique({
-    where: { id: orderId },
-    include: { items: true },
-  });
+    if (!businessId || !date) {
+      res.status(400).json({ message: "businessId and date are required" });
+      return;
+    }
 
-  if (!order) {
-    res.status(404).json({ message: "Order not found" });
-    return;
-  }
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+    });
+    if (!business) {
+      res.status(404).json({ message: "Business not found" });
+      return;
+    }
 
-  // ✅ Calculate order status based on items
-  const allItemsCompleted = order.items.every(
-    (item) => item.status === "Completed"
-  );
-  const orderStatus =
-    allItemsCompleted && order.items.length > 0 ? "Completed" : "Pending";
-
-  res.status(200).json({
-    order_id: `ORD${order.id.toString().padStart(5, "0")}`,
-    table_number: order.tableNumber,
-    total_amount: order.totalAmount,
-    payment_method: order.paymentMethod,
-    status: orderStatus, // ✅ Dynamic status based on items
-    estimated_time: order.estimatedTime,
-    created_at: order.createdAt,
-    items: order.items,
-  });
+    const slots = await listSlots(prisma, businessId, business, date);
+    res.status(200).json({
+      slot_minutes: business.preorderSlotMinutes,
+      lead_minutes: business.preorderLeadMinutes,
+      slots,
+    });
+  } catch (error) {
+    if (error instanceof OrderSchedulingError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    console.error("❌ Error fetching slots:", error);
+    res.status(500).json({ message: "Server error while fetching slots" });
+  }
 });
 
-// ✅ PUT: Update order (no auth)
-router.put("/:orderId", async (req: Request, res: Response): Promise<void> => {
-  try {
-    const rawId = req.params.orderId;
-    const orderId = parseInt(rawId.replace("ORD", ""), 10);
-    const {
-      businessId,
-      table_number,
-      cart_items,
-      total_amount,
-      payment_method,
-      estimated_time,
-    } = req.body;
+// EventSource can't send headers, so kitchen tablets may pass ?token= instead
+const tokenFromQuery = (req: Request, _res: Response, next: NextFunction) => {
+  if (!req.headers.authorization && typeof req.query.token === "string") {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+};
+
+// ✅ GET: Live order feed for kitchen and floor screens (SSE)
+router.get(
+  "/stream",
+  tokenFromQuery,
+  authenticateBusinessOwnerJWT,
+  (req: BusinessOwnerRequest, res: Response): void => {
+    const businessId = req.businessOwner?.businessId;
 
     if (!businessId) {
-      res.status(400).json({ message: "Missing business ID" });
+      res.status(401).json({ message: "Unauthorized" });
       return;
     }
 
-    const existingOrder = await prisma.order.findUnique({
-      where: { id: orderId },
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
     });
-
-    if (!existingOrder || existingOrder.businessId !== businessId) {
-      res.status(403).json({ message: "Not allowed to update this order" });
-      return;
+    res.write("retry: 3000\n\n");
+
+    // Replay anything the screen missed while it was disconnected
+    const lastEventId = Number(
+      req.headers["last-event-id"] ?? req.query.lastEventId
+    );
+    if (lastEventId > 0) {
+      const missed = eventsSince(businessId, lastEventId);
+      if (missed) {
+        missed.forEach((event) => writeSseEvent(res, event));
+      } else {
+        res.write("event: resync\ndata: {}\n\n");
+      }
     }
 
-    // Fetch existing items with status
-    const existingItems = await prisma.orderItem.findMany({
-      where: { orderId },
+    const unsubscribe = subscribeOrderEvents(businessId, (event) =>
+      writeSseEvent(res, event)
+    );
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
     });
+  }
+);
 
-    // Delete old items
-    await prisma.orderItem.deleteMany({ where: { orderId } });
+// Without a tracking token, only the customer who placed the order (or staff
+// of its business) may look it up
+async function isOrderOwner(
+  req: Request,
+  order: { businessId: number; customerId: number | null }
+): Promise<boolean> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith("Bearer ")) return false;
 
-    // Create new items, preserving status if they existed
-    const updated = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        tableNumber: table_number,
-        totalAmount: total_amount,
-        paymentMethod: payment_method,
-        estimatedTime: estimated_time,
-        items: {
-          create: cart_items.map((item: any) => {
-            const matched = existingItems.find(
-              (existing) => existing.productId === item.productId
-            );
+  let payload: Partial<CustomerPayload & BusinessOwnerPayload>;
+  try {
+    payload = jwt.verify(
+      authHeader.split(" ")[1],
+      process.env.JWT_SECRET || "your-secret-key"
+    ) as typeof payload;
+  } catch (err) {
+    return false;
+  }
 
-            return {
-              productId: item.productId,
-              quantity: item.quantity,
-              price: item.price,
-              name: item.name,
-              status: item.status || matched?.status || "Pending", // ✅ Preserve if exists
-            };
-          }),
-        },
-      },
-      include: { items: true },
-    });
+  if (payload.businessId !== order.businessId) return false;
+  if (payload.userId) return true;
+  if (!payload.customerId || !order.customerId) return false;
 
-    res.status(200).json({
-      order_id: `ORD${updated.id.toString().padStart(5, "0")}`,
-      table_number: updated.tableNumber,
-      total_amount: updated.totalAmount,
-      payment_method: updated.paymentMethod,
-      status: "Pending", // ✅ Reset order status on update
-      estimated_time: updated.estimatedTime,
-      items: updated.items,
-      message: "Order updated successfully",
+  const customer = await prisma.customer.findFirst({
+    where: { customerId: payload.customerId, businessId: order.businessId },
+    select: { id: true },
+  });
+  return customer?.id === order.customerId;
+}
+
+// ✅ GET: Track an order (tracking token or owning customer's JWT)
+// GET /api/orders/ORD00042?tracking_token=...
+router.get("/:orderId", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rawId = req.params.orderId;
+    const orderId = parseOrderRef(rawId);
+    const tracking = verifyTrackingToken(
+      req.query.tracking_token ?? req.header("X-Tracking-Token")
+    );
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { items: true, statusHistory: true },
     });
+
+    // Same answer for "no such order" and "not yours" so ids can't be probed
+    const allowed =
+      order &&
+      ((tracking?.orderId === order.id &&
+        tracking.businessId === order.businessId) ||
+        (await isOrderOwner(req, order)));
+    if (!order || !allowed) {
+      res.status(404).json({ message: "Order not found" });
+      return;
+    }
+
+    res.status(200).json(trackingView(order));
   } catch (error) {
-    console.error(error);
-    res.status(500).json({ message: "Server error while updating order" });
+    console.error("❌ Error tracking order:", error);
+    res.status(500).json({ message: "Server error while fetching order" });
   }
 });
 
-// ✅ PATCH: Update order status (auth required)
-router.patch(
-  "/:orderId/status",
-  authenticateBusinessOwnerJWT,
-  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+// ✅ POST: Rate a completed order and, optionally, its items
+// Body: { rating: 4, comment?, items?: [{ itemId, rating, comment? }] }
+// Needs the order's tracking token or the ordering customer's JWT
+router.post(
+  "/:orderId/feedback",
+  optionalCustomerJWT,
+  async (req: CustomerRequest, res: Response): Promise<void> => {
     try {
-      const rawId = req.params.orderId;
-      const orderId = parseInt(rawId.replace("ORD", ""), 10);
-      const { status } = req.body;
-
-      const businessId = req.businessOwner?.businessId; // ✅ Use JWT payload
-
-      if (!businessId) {
-        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+      const orderId = parseOrderRef(req.params.orderId);
+      if (!Number.isInteger(orderId)) {
+        res.status(400).json({ message: "Invalid order id" });
         return;
       }
+      const tracking = verifyTrackingToken(
+        req.body.tracking_token ?? req.header("X-Tracking-Token")
+      );
 
-      const existingOrder = await prisma.order.findUnique({
+      const order = await prisma.order.findUnique({
         where: { id: orderId },
       });
-
-      if (!existingOrder || existingOrder.businessId !== businessId) {
-        res.status(403).json({ message: "Not allowed to update this order" });
+      const customer =
+        order && req.customer?.businessId === order.businessId
+          ? await findTokenCustomer(prisma, req.customer)
+          : null;
+      const isOwner = !!customer && customer.id === order?.customerId;
+
+      // Same answer for "no such order" and "not yours" so ids can't be probed
+      if (
+        !order ||
+        !(
+          isOwner ||
+          (tracking?.orderId === order.id &&
+            tracking.businessId === order.businessId)
+        )
+      ) {
+        res.status(404).json({ message: "Order not found" });
         return;
       }
 
-      const updatedOrder = await prisma.order.update({
-        where: { id: orderId },
-        data: { status },
-        include: { items: true },
-      });
+      const feedback = await submitFeedback(
+        prisma,
+        order.id,
+        req.body,
+        order.customerId
+      );
 
-      res.status(200).json({
-        order_id: `ORD${updatedOrder.id.toString().padStart(5, "0")}`,
-        status: updatedOrder.status,
-        message: "Order status updated successfully",
+      res.status(201).json({
+        ...orderRefFields(order),
+        rating: feedback.rating,
+        comment: feedback.comment,
+        items: feedback.items.map((item) => ({
+          itemId: item.orderItemId,
+          rating: item.rating,
+          comment: item.comment,
+        })),
+        message: "Thank you for your feedback",
       });
     } catch (error) {
+      if (error instanceof FeedbackError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      if (error instanceof FeedbackExistsError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
       console.error(error);
-      res
-        .status(500)
-        .json({ message: "Server error while updating order status" });
+      res.status(500).json({ message: "Server error while saving feedback" });
     }
   }
 );
 
-// ✅ NEW: Update individual item status
-router.patch(
-  "/:orderId/items/:productId/status",
+// ✅ PUT: Update order details (auth required)
+// Items are edited through /:orderId/items and tables through /:orderId/transfer
+router.put(
+  "/:orderId",
   authenticateBusinessOwnerJWT,
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const rawId = req.params.orderId;
-      const orderId = parseInt(rawId.replace("ORD", ""), 10);
-      const productId = parseInt(req.params.productId, 10);
-      const { status } = req.body;
-
+      const orderId = parseOrderRef(req.params.orderId);
       const businessId = req.businessOwner?.businessId;
+      const { cart_items, payment_method, estimated_time } = req.body;
 
       if (!businessId) {
         res.status(401).json({ message: "Unauthorized: Missing businessId" });
         return;
       }
 
-      // Verify order belongs to business
+      if (cart_items !== undefined) {
+        res.status(400).json({
+          message:
+            "Use POST /:orderId/items, PATCH or DELETE /:orderId/items/:itemId to change items",
+        });
+        return;
+      }
+
       const existingOrder = await prisma.order.findUnique({
         where: { id: orderId },
-        include: { items: true },
       });
 
       if (!existingOrder || existingOrder.businessId !== businessId) {
@@ -476,79 +746,40 @@ router.patch(
         return;
       }
 
-      // Find and update the specific item
-      const itemToUpdate = existingOrder.items.find(
-        (item) => item.productId === productId
-      );
-
-      if (!itemToUpdate) {
-        res.status(404).json({ message: "Item not found in order" });
-        return;
-      }
-
-      // Update the item status
-      await prisma.orderItem.updateMany({
-        where: {
-          orderId: orderId,
-          productId: productId,
-        },
+      const updated = await prisma.order.update({
+        where: { id: orderId },
         data: {
-          status: status,
+          paymentMethod: payment_method,
+          estimatedTime: estimated_time,
         },
-      });
-
-      // Get updated order with items
-      const updatedOrder = await prisma.order.findUnique({
-        where: { id: orderId },
         include: { items: true },
       });
 
-      if (!updatedOrder) {
-        res.status(404).json({ message: "Order not found" });
-        return;
-      }
-
-      // Calculate new order status based on all items
-      const allItemsCompleted = updatedOrder.items.every(
-        (item) => item.status === "Completed"
-      );
-      const newOrderStatus =
-        allItemsCompleted && updatedOrder.items.length > 0
-          ? "Completed"
-          : "Pending";
-
-      // Update order status if needed
-      await prisma.order.update({
-        where: { id: orderId },
-        data: { status: newOrderStatus },
-      });
-
       res.status(200).json({
-        message: "Item status updated successfully",
-        item: {
-          productId: productId,
-          status: status,
-        },
-        orderStatus: newOrderStatus,
+        ...orderRefFields(updated),
+        table_number: updated.tableNumber,
+        total_amount: updated.totalAmount,
+        payment_method: updated.paymentMethod,
+        status: updated.status,
+        estimated_time: updated.estimatedTime,
+        items: updated.items,
+        message: "Order updated successfully",
       });
     } catch (error) {
       console.error(error);
-      res
-        .status(500)
-        .json({ message: "Server error while updating item status" });
+      res.status(500).json({ message: "Server error while updating order" });
     }
   }
 );
 
-// ✅ NEW: Serve all items in an order
-router.patch(
-  "/:orderId/complete-all",
+// ✅ POST: Add items to an open order; the kitchen gets an add-on ticket
+// Body: { cart_items: [{ productId, variantId?, quantity, modifiers?, note? }] }
+router.post(
+  "/:orderId/items",
   authenticateBusinessOwnerJWT,
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const rawId = req.params.orderId;
-      const orderId = parseInt(rawId.replace("ORD", ""), 10);
-
+      const orderId = parseOrderRef(req.params.orderId);
       const businessId = req.businessOwner?.businessId;
 
       if (!businessId) {
@@ -556,9 +787,200 @@ router.patch(
         return;
       }
 
-      // Verify order belongs to business
-      const existingOrder = await prisma.order.findUnique({
-        where: { id: orderId },
+      const result = await prisma.$transaction(
+        (tx) =>
+          addOrderItems(
+            tx,
+            businessId,
+            orderId,
+            req.body.cart_items,
+            staffActor(req.businessOwner)
+          ),
+        { maxWait: 5000, timeout: 15000 }
+      );
+
+      publishOrderEvent(businessId, "order-items-added", {
+        ...orderRefFields(result.order),
+        id: orderId,
+        order_type: result.order.orderType,
+        table_number: result.order.tableNumber,
+        items: result.items,
+      });
+
+      res.status(201).json({
+        ...orderRefFields(result.order),
+        items: result.items,
+        amount_added: result.amountAdded,
+        message: "Items added to order",
+      });
+    } catch (error) {
+      if (
+        error instanceof OrderEditError ||
+        error instanceof OrderPricingError
+      ) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while adding items" });
+    }
+  }
+);
+
+// ✅ PATCH: Change the quantity of a line the kitchen hasn't started on;
+// lines further along go through POST /:orderId/items/:itemId/void
+// Body: { quantity: 3, restock?: true }
+router.patch(
+  "/:orderId/items/:itemId",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const itemId = parseInt(req.params.itemId, 10);
+      const businessId = req.businessOwner?.businessId;
+      const { quantity, restock } = req.body;
+
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      const result = await prisma.$transaction((tx) =>
+        changeItemQuantity(
+          tx,
+          businessId,
+          orderId,
+          itemId,
+          Number(quantity),
+          staffActor(req.businessOwner),
+          { restock: restock !== false }
+        )
+      );
+
+      publishOrderEvent(businessId, "item-quantity-changed", {
+        ...orderRefFields(result.order),
+        id: orderId,
+        items: [
+          {
+            id: result.item.id,
+            productId: result.item.productId,
+            stationId: result.item.stationId,
+            quantity: result.item.quantity,
+          },
+        ],
+      });
+
+      res.status(200).json({
+        ...orderRefFields(result.order),
+        itemId,
+        quantity: result.item.quantity,
+        amount_changed: result.amountChanged,
+        message: "Item quantity updated",
+      });
+    } catch (error) {
+      if (error instanceof OrderEditError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while updating item" });
+    }
+  }
+);
+
+// ✅ DELETE: Remove a line the kitchen hasn't started on
+router.delete(
+  "/:orderId/items/:itemId",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const itemId = parseInt(req.params.itemId, 10);
+      const businessId = req.businessOwner?.businessId;
+
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      const result = await prisma.$transaction((tx) =>
+        removeOrderItem(
+          tx,
+          businessId,
+          orderId,
+          itemId,
+          staffActor(req.businessOwner),
+          { reasonCode: "CUSTOMER_REQUEST", note: "Removed from order" }
+        )
+      );
+
+      publishOrderEvent(businessId, "item-status-changed", {
+        ...orderRefFields(result.order),
+        id: orderId,
+        items: [
+          {
+            id: result.item.id,
+            productId: result.item.productId,
+            stationId: result.item.stationId,
+            status: "Cancelled",
+          },
+        ],
+        orderStatus: result.orderStatus,
+      });
+      await publishOrderStatusChange(
+        prisma,
+        result.order,
+        result.order.status,
+        result.orderStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+
+      res.status(200).json({
+        ...orderRefFields(result.order),
+        itemId,
+        amount_removed: result.amountVoided,
+        orderStatus: result.orderStatus,
+        message: "Item removed from order",
+      });
+    } catch (error) {
+      if (
+        error instanceof OrderEditError ||
+        error instanceof OrderReversalError
+      ) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while removing item" });
+    }
+  }
+);
+
+// ✅ PATCH: Update order status (auth required)
+router.patch(
+  "/:orderId/status",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const rawId = req.params.orderId;
+      const orderId = parseOrderRef(rawId);
+      const status = parseOrderStatus(req.body.status);
+      const { note } = req.body;
+
+      const businessId = req.businessOwner?.businessId; // ✅ Use JWT payload
+
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: orderId },
       });
 
       if (!existingOrder || existingOrder.businessId !== businessId) {
@@ -566,27 +988,267 @@ router.patch(
         return;
       }
 
-      // Update all items to "Completed"
-      await prisma.orderItem.updateMany({
-        where: {
-          orderId: orderId,
-        },
-        data: {
-          status: "Completed",
+      if (!status) {
+        res.status(400).json({ message: "Invalid order status" });
+        return;
+      }
+
+      // Cancelling needs a manager and a reason, and undoes the order's
+      // side effects; that only happens through the cancel route
+      if (status === "Cancelled") {
+        res.status(400).json({
+          message: `Cancel orders with POST /api/orders/${rawId}/cancel`,
+        });
+        return;
+      }
+
+      // A rejected order never happened, so it is reversed like a
+      // cancellation and needs a reason too
+      const actor = staffActor(req.businessOwner);
+      const reason =
+        status === "Rejected" ? parseReason(req.body.reasonCode, note) : null;
+
+      const newStatus = await prisma.$transaction(async (tx) => {
+        if (reason) {
+          const result = await cancelOrder(tx, orderId, actor, reason, {
+            restock: true,
+            to: "Rejected",
+          });
+          return result.status;
+        }
+        return transitionOrder(tx, orderId, status, actor, { note });
+      });
+
+      await publishOrderStatusChange(
+        prisma,
+        existingOrder,
+        existingOrder.status,
+        newStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+
+      res.status(200).json({
+        order_id: formatOrderRef(orderId),
+        status: newStatus,
+        message: "Order status updated successfully",
+      });
+    } catch (error) {
+      if (error instanceof OrderReversalError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res
+        .status(500)
+        .json({ message: "Server error while updating order status" });
+    }
+  }
+);
+
+// ✅ NEW: Update individual item status
+router.patch(
+  "/:orderId/items/:productId/status",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const rawId = req.params.orderId;
+      const orderId = parseOrderRef(rawId);
+      const productId = parseInt(req.params.productId, 10);
+      const status = parseItemStatus(req.body.status);
+
+      const businessId = req.businessOwner?.businessId;
+
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      // Verify order belongs to business
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: { items: true },
+      });
+
+      if (!existingOrder || existingOrder.businessId !== businessId) {
+        res.status(403).json({ message: "Not allowed to update this order" });
+        return;
+      }
+
+      if (!status) {
+        res.status(400).json({ message: "Invalid item status" });
+        return;
+      }
+
+      // Voiding needs a manager and a reason and reprices the order
+      if (status === "Cancelled") {
+        res.status(400).json({
+          message: `Void items with POST /api/orders/${rawId}/items/:itemId/void`,
+        });
+        return;
+      }
+
+      // Find the specific item(s), optionally only those of one station
+      const stationId = req.body.stationId
+        ? Number(req.body.stationId)
+        : undefined;
+      const matchingItems = existingOrder.items.filter(
+        (item) =>
+          item.productId === productId &&
+          (stationId === undefined || item.stationId === stationId)
+      );
+
+      if (matchingItems.length === 0) {
+        res.status(404).json({ message: "Item not found in order" });
+        return;
+      }
+
+      // A product added again later gets its own line; only the lines still
+      // in the kitchen move, not ones already served or voided
+      const itemsToUpdate = matchingItems.filter((item) => {
+        const itemStatus = parseItemStatus(item.status);
+        return itemStatus !== "Served" && itemStatus !== "Cancelled";
+      });
+
+      if (itemsToUpdate.length === 0) {
+        res
+          .status(409)
+          .json({ message: "Item has already been served or voided" });
+        return;
+      }
+
+      // Update the items; the order follows its slowest item
+      const newOrderStatus = await prisma.$transaction((tx) =>
+        transitionItems(
+          tx,
+          orderId,
+          itemsToUpdate.map((item) => item.id),
+          status,
+          staffActor(req.businessOwner)
+        )
+      );
+
+      publishOrderEvent(businessId, "item-status-changed", {
+        ...orderRefFields(existingOrder),
+        id: orderId,
+        items: itemsToUpdate.map((item) => ({
+          id: item.id,
+          productId: item.productId,
+          stationId: item.stationId,
+          status,
+        })),
+        orderStatus: newOrderStatus,
+      });
+      await publishOrderStatusChange(
+        prisma,
+        existingOrder,
+        existingOrder.status,
+        newOrderStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+
+      res.status(200).json({
+        message: "Item status updated successfully",
+        item: {
+          productId: productId,
+          status: status,
         },
+        orderStatus: newOrderStatus,
       });
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res
+        .status(500)
+        .json({ message: "Server error while updating item status" });
+    }
+  }
+);
+
+// ✅ NEW: Serve all items in an order
+router.patch(
+  "/:orderId/complete-all",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const rawId = req.params.orderId;
+      const orderId = parseOrderRef(rawId);
+
+      const businessId = req.businessOwner?.businessId;
 
-      // Update order status to "Completed"
-      await prisma.order.update({
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      // Verify order belongs to business
+      const existingOrder = await prisma.order.findUnique({
         where: { id: orderId },
-        data: { status: "Completed" },
+        include: { items: true },
       });
 
+      if (!existingOrder || existingOrder.businessId !== businessId) {
+        res.status(403).json({ message: "Not allowed to update this order" });
+        return;
+      }
+
+      // Serve every item that is still live
+      const openItemIds = existingOrder.items
+        .filter((item) => {
+          const itemStatus = parseItemStatus(item.status);
+          return itemStatus !== "Served" && itemStatus !== "Cancelled";
+        })
+        .map((item) => item.id);
+
+      const newOrderStatus = await prisma.$transaction((tx) =>
+        transitionItems(
+          tx,
+          orderId,
+          openItemIds,
+          "Served",
+          staffActor(req.businessOwner)
+        )
+      );
+
+      publishOrderEvent(businessId, "item-status-changed", {
+        ...orderRefFields(existingOrder),
+        id: orderId,
+        items: existingOrder.items
+          .filter((item) => openItemIds.includes(item.id))
+          .map((item) => ({
+            id: item.id,
+            productId: item.productId,
+            stationId: item.stationId,
+            status: "Served",
+          })),
+        orderStatus: newOrderStatus,
+      });
+      await publishOrderStatusChange(
+        prisma,
+        existingOrder,
+        existingOrder.status,
+        newOrderStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+
       res.status(200).json({
         message: "All items marked as completed successfully",
-        orderStatus: "Completed",
+        orderStatus: newOrderStatus,
       });
     } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
       console.error(error);
       res
         .status(500)
@@ -595,4 +1257,387 @@ router.patch(
   }
 );
 
+// ✅ Cancel an order (Manager/Owner only, reason code required)
+router.post(
+  "/:orderId/cancel",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+      const { reasonCode, note, restock } = req.body;
+
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: orderId },
+      });
+
+      if (!existingOrder || existingOrder.businessId !== businessId) {
+        res.status(403).json({ message: "Not allowed to cancel this order" });
+        return;
+      }
+
+      const reason = parseReason(reasonCode, note);
+
+      const result = await prisma.$transaction((tx) =>
+        cancelOrder(tx, orderId, staffActor(req.businessOwner), reason, {
+          restock: restock !== false,
+        })
+      );
+
+      publishOrderEvent(existingOrder.businessId, "item-status-changed", {
+        ...orderRefFields(existingOrder),
+        id: orderId,
+        items: result.order.items
+          .filter((item) => result.cancelledItemIds.includes(item.id))
+          .map((item) => ({
+            id: item.id,
+            productId: item.productId,
+            stationId: item.stationId,
+            status: "Cancelled",
+          })),
+        orderStatus: "Cancelled",
+      });
+      await publishOrderStatusChange(
+        prisma,
+        existingOrder,
+        existingOrder.status,
+        "Cancelled"
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+
+      res.status(200).json({
+        order_id: formatOrderRef(orderId),
+        status: "Cancelled",
+        reasonCode: reason.reasonCode,
+        cancelledItems: result.cancelledItemIds.length,
+        message: "Order cancelled successfully",
+      });
+    } catch (error) {
+      if (error instanceof OrderReversalError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while cancelling order" });
+    }
+  }
+);
+
+// ✅ Void a single item (Manager/Owner only, reason code required)
+router.post(
+  "/:orderId/items/:itemId/void",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const itemId = parseInt(req.params.itemId, 10);
+      const businessId = req.businessOwner?.businessId;
+      const { reasonCode, note, restock } = req.body;
+
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: orderId },
+      });
+
+      if (!existingOrder || existingOrder.businessId !== businessId) {
+        res.status(403).json({ message: "Not allowed to update this order" });
+        return;
+      }
+
+      const reason = parseReason(reasonCode, note);
+
+      const result = await prisma.$transaction((tx) =>
+        voidOrderItem(
+          tx,
+          orderId,
+          itemId,
+          staffActor(req.businessOwner),
+          reason,
+          { restock: restock !== false }
+        )
+      );
+
+      publishOrderEvent(existingOrder.businessId, "item-status-changed", {
+        ...orderRefFields(existingOrder),
+        id: orderId,
+        items: [
+          {
+            id: result.item.id,
+            productId: result.item.productId,
+            stationId: result.item.stationId,
+            status: "Cancelled",
+          },
+        ],
+        orderStatus: result.orderStatus,
+      });
+      await publishOrderStatusChange(
+        prisma,
+        existingOrder,
+        existingOrder.status,
+        result.orderStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+
+      res.status(200).json({
+        order_id: formatOrderRef(orderId),
+        itemId,
+        reasonCode: reason.reasonCode,
+        amountVoided: result.amountVoided,
+        orderStatus: result.orderStatus,
+        message: "Item voided successfully",
+      });
+    } catch (error) {
+      if (error instanceof OrderReversalError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while voiding item" });
+    }
+  }
+);
+
+// ✅ POST: Move an order to another table
+router.post(
+  "/:orderId/transfer",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+      const toTable = Number(req.body.table_number);
+
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      if (!Number.isInteger(toTable) || toTable <= 0) {
+        res.status(400).json({ message: "A valid table_number is required" });
+        return;
+      }
+
+      const result = await prisma.$transaction((tx) =>
+        transferOrder(
+          tx,
+          businessId,
+          orderId,
+          toTable,
+          staffActor(req.businessOwner)
+        )
+      );
+
+      publishOrderEvent(businessId, "order-moved", {
+        ...orderRefFields(result.order),
+        id: orderId,
+        from_table: result.fromTable,
+        table_number: result.toTable,
+      });
+      await publishTableStatus(prisma, businessId, result.fromTable).catch(
+        (err) => console.error("❌ Failed to publish table status:", err)
+      );
+      await publishTableStatus(prisma, businessId, result.toTable).catch(
+        (err) => console.error("❌ Failed to publish table status:", err)
+      );
+
+      res.status(200).json({
+        ...orderRefFields(result.order),
+        from_table: result.fromTable,
+        table_number: result.toTable,
+        message: "Order moved successfully",
+      });
+    } catch (error) {
+      if (error instanceof TableOperationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while moving order" });
+    }
+  }
+);
+
+// ✅ POST: Merge the open orders of several tables into one check
+// Body: { from_tables: [4, 5], to_table: 3 }
+router.post(
+  "/tables/merge",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const { from_tables, to_table } = req.body;
+      const toTable = Number(to_table);
+
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      if (
+        !Array.isArray(from_tables) ||
+        from_tables.length === 0 ||
+        !Number.isInteger(toTable) ||
+        toTable <= 0
+      ) {
+        res
+          .status(400)
+          .json({ message: "from_tables and to_table are required" });
+        return;
+      }
+
+      const result = await prisma.$transaction((tx) =>
+        mergeTables(
+          tx,
+          businessId,
+          from_tables.map(Number),
+          toTable,
+          staffActor(req.businessOwner)
+        )
+      );
+
+      for (const source of result.sources) {
+        await publishOrderStatusChange(
+          prisma,
+          source,
+          source.status,
+          "Merged"
+        ).catch((err) =>
+          console.error("❌ Failed to publish order status:", err)
+        );
+      }
+      publishOrderEvent(businessId, "order-moved", {
+        ...orderRefFields(result.target),
+        id: result.target.id,
+        merged: result.sources.map((source) => orderRefFields(source)),
+        table_number: toTable,
+        orderStatus: result.status,
+      });
+      for (const table of result.tables) {
+        await publishTableStatus(prisma, businessId, table).catch((err) =>
+          console.error("❌ Failed to publish table status:", err)
+        );
+      }
+
+      res.status(200).json({
+        ...orderRefFields(result.target),
+        table_number: toTable,
+        merged_orders: result.sources.map((source) => orderRefFields(source)),
+        status: result.status,
+        message: "Tables merged successfully",
+      });
+    } catch (error) {
+      if (error instanceof TableOperationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while merging tables" });
+    }
+  }
+);
+
+// ✅ POST: Move selected items to a new order on another table
+// Body: { table_number: 6, items: [{ itemId: 12 }, { itemId: 13, quantity: 1 }] }
+router.post(
+  "/:orderId/split",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const orderId = parseOrderRef(req.params.orderId);
+      const businessId = req.businessOwner?.businessId;
+      const { items } = req.body;
+      const toTable = Number(req.body.table_number);
+
+      if (!businessId) {
+        res.status(401).json({ message: "Unauthorized: Missing businessId" });
+        return;
+      }
+
+      if (!Array.isArray(items) || !Number.isInteger(toTable) || toTable <= 0) {
+        res
+          .status(400)
+          .json({ message: "items and a valid table_number are required" });
+        return;
+      }
+
+      const result = await prisma.$transaction(
+        (tx) =>
+          splitOrder(
+            tx,
+            businessId,
+            orderId,
+            items,
+            toTable,
+            staffActor(req.businessOwner)
+          ),
+        { maxWait: 5000, timeout: 15000 }
+      );
+
+      publishOrderEvent(businessId, "order-created", {
+        ...orderRefFields(result.newOrder),
+        id: result.newOrder.id,
+        order_type: result.newOrder.orderType,
+        table_number: result.newOrder.tableNumber,
+        status: result.newStatus,
+        created_at: result.newOrder.createdAt,
+        items: result.newOrder.items,
+      });
+      publishOrderEvent(businessId, "order-moved", {
+        ...orderRefFields(result.order),
+        id: orderId,
+        split_into: orderRefFields(result.newOrder),
+        table_number: result.order.tableNumber,
+        orderStatus: result.sourceStatus,
+      });
+      await publishOrderStatusChange(
+        prisma,
+        result.order,
+        result.order.status,
+        result.sourceStatus
+      ).catch((err) =>
+        console.error("❌ Failed to publish order status:", err)
+      );
+      await publishTableStatus(prisma, businessId, toTable).catch((err) =>
+        console.error("❌ Failed to publish table status:", err)
+      );
+
+      res.status(201).json({
+        ...orderRefFields(result.newOrder),
+        table_number: result.newOrder.tableNumber,
+        status: result.newStatus,
+        total_amount: result.newOrder.totalAmount,
+        items: result.newOrder.items,
+        source_order_id: formatOrderRef(orderId),
+        message: "Items moved to a new order",
+      });
+    } catch (error) {
+      if (error instanceof TableOperationError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+      console.error(error);
+      res.status(500).json({ message: "Server error while splitting order" });
+    }
+  }
+);
+
 export default router;
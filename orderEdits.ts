@@ -0,0 +1,300 @@
+// src/utils/orderEdits.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  CartItemInput,
+  PricedLine,
+  priceLines,
+  roundMoney,
+  taxableLines,
+} from "./orderPricing";
+import { computeTax, loadTaxRates, TaxableLine } from "./taxEngine";
+import { adjustInventory } from "./inventoryUsage";
+import { loadStationRouter } from "./kitchenRouting";
+import {
+  parseItemStatus,
+  parseOrderStatus,
+  StatusActor,
+  TransitionDetail,
+} from "./orderStatus";
+import { adjustCustomer, repriceOrder, voidOrderItem } from "./orderReversal";
+import { formatOrderRef } from "./orderRefs";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export class OrderEditError extends Error {}
+
+// Once a bill exists the check is fixed; edit the order before billing
+const EDITABLE_STATUSES = [
+  "Pending",
+  "Accepted",
+  "Preparing",
+  "Ready",
+  "Served",
+];
+
+// OrderItem columns for a freshly priced line
+export const orderItemData = (line: PricedLine, stationId: number | null) => ({
+  productId: line.productId,
+  variantId: line.variantId,
+  variantName: line.variantName,
+  quantity: line.quantity,
+  price: line.unitPrice,
+  name: line.name,
+  status: "Pending",
+  stationId,
+  modifiers: line.modifiers.length
+    ? (line.modifiers as unknown as Prisma.InputJsonArray)
+    : undefined,
+  note: line.note,
+});
+
+async function loadEditableOrder(
+  db: PrismaLike,
+  businessId: number,
+  orderId: number
+) {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    include: { items: { include: { product: true, variant: true } } },
+  });
+  if (!order || order.businessId !== businessId) {
+    throw new OrderEditError(`Order ${formatOrderRef(orderId)} not found`);
+  }
+  const status = parseOrderStatus(order.status);
+  if (!status || !EDITABLE_STATUSES.includes(status)) {
+    throw new OrderEditError(
+      `Order ${formatOrderRef(orderId)} is ${order.status} and can't be edited`
+    );
+  }
+  if (await db.bill.count({ where: { orderId } })) {
+    throw new OrderEditError(
+      `Order ${formatOrderRef(orderId)} has been billed and can't be edited`
+    );
+  }
+  return order;
+}
+
+// Moves the order total by `totalChange` and keeps loyalty in step: points
+// earned follow the new total, and the customer's spend follows the change
+async function applyAmountChange(
+  db: PrismaLike,
+  order: {
+    id: number;
+    customerId: number | null;
+    subtotal: number | null;
+    totalAmount: number | null;
+    pointsEarned: number;
+  },
+  subtotalChange: number,
+  totalChange: number
+) {
+  const total = order.totalAmount ?? 0;
+  const newTotal = roundMoney(Math.max(0, total + totalChange));
+  const newEarned = order.customerId ? Math.floor(newTotal / 100) : 0;
+
+  await db.order.update({
+    where: { id: order.id },
+    data: {
+      subtotal:
+        order.subtotal !== null
+          ? roundMoney(Math.max(0, order.subtotal + subtotalChange))
+          : null,
+      totalAmount: newTotal,
+      pointsEarned: newEarned,
+    },
+  });
+
+  if (order.customerId) {
+    await adjustCustomer(db, order.customerId, {
+      orders: 0,
+      spent: newTotal - total,
+      points: newEarned - order.pointsEarned,
+    });
+  }
+
+  return roundMoney(newTotal - total);
+}
+
+// Additions are charged at list price plus each line's tax; the coupon and
+// points were settled when the order was placed
+const chargeFor = (lines: TaxableLine[]) =>
+  computeTax(lines, { discount: 0, serviceChargeRate: 0, interState: false })
+    .total;
+
+// Adds new lines to an open order. Existing items are untouched; only the
+// new ones are returned, for the kitchen's add-on ticket.
+export async function addOrderItems(
+  db: PrismaLike,
+  businessId: number,
+  orderId: number,
+  cartItems: CartItemInput[],
+  actor: StatusActor
+) {
+  const order = await loadEditableOrder(db, businessId, orderId);
+  if (!Array.isArray(cartItems) || cartItems.length === 0) {
+    throw new OrderEditError("Add at least one item");
+  }
+
+  const lines = await priceLines(db, businessId, cartItems);
+  const routeToStation = await loadStationRouter(db, businessId);
+
+  const items = [];
+  for (const line of lines) {
+    const item = await db.orderItem.create({
+      data: { ...orderItemData(line, routeToStation(line.category)), orderId },
+    });
+    await db.orderStatusHistory.create({
+      data: {
+        orderId,
+        orderItemId: item.id,
+        fromStatus: null,
+        toStatus: item.status,
+        actorType: actor.type,
+        actorId: actor.id,
+        reasonCode: "ITEM_ADDED",
+      },
+    });
+    items.push(item);
+  }
+
+  await adjustInventory(db, businessId, lines, "deduct");
+
+  const added = roundMoney(lines.reduce((sum, l) => sum + l.lineTotal, 0));
+  const amountAdded = await applyAmountChange(
+    db,
+    order,
+    added,
+    chargeFor(taxableLines(lines))
+  );
+
+  return { order, items, amountAdded };
+}
+
+// Changes how many of one line were ordered, before the kitchen starts on
+// it. Taking some off a line the kitchen is working on is a partial void,
+// which needs a manager and a reason: void the line and add what's still
+// wanted instead.
+export async function changeItemQuantity(
+  db: PrismaLike,
+  businessId: number,
+  orderId: number,
+  itemId: number,
+  quantity: number,
+  actor: StatusActor,
+  options: { restock: boolean }
+) {
+  const order = await loadEditableOrder(db, businessId, orderId);
+  const item = order.items.find((i) => i.id === itemId);
+  const status = parseItemStatus(item?.status);
+  if (!item || !status || status === "Cancelled") {
+    throw new OrderEditError("Item not found in order");
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new OrderEditError("quantity must be a whole number of at least 1");
+  }
+  if (quantity === item.quantity) {
+    throw new OrderEditError(`Quantity of ${item.name} is already ${quantity}`);
+  }
+
+  const change = quantity - item.quantity;
+  if (status !== "Pending") {
+    throw new OrderEditError(
+      change > 0
+        ? `${item.name} is already ${status}, add a new line instead`
+        : `${item.name} is already ${status}, void it instead`
+    );
+  }
+
+  await db.orderItem.update({
+    where: { id: item.id },
+    data: { quantity },
+  });
+  await db.orderStatusHistory.create({
+    data: {
+      orderId,
+      orderItemId: item.id,
+      fromStatus: item.status,
+      toStatus: item.status,
+      actorType: actor.type,
+      actorId: actor.id,
+      reasonCode: "QUANTITY_CHANGED",
+      note: `Quantity ${item.quantity} → ${quantity}`,
+    },
+  });
+
+  if (change > 0 || options.restock) {
+    await adjustInventory(
+      db,
+      businessId,
+      [
+        {
+          quantity: Math.abs(change),
+          metadata: item.product.metadata,
+          recipe: item.variant?.ingredients,
+        },
+      ],
+      change > 0 ? "deduct" : "restore"
+    );
+  }
+
+  // More units are charged like an addition; fewer reprice the order, and
+  // the removed units take their share of the discount with them, as for
+  // voids
+  const lineChange = roundMoney(item.price * change);
+  let amountChanged: number;
+  if (change > 0) {
+    const { rateFor } = await loadTaxRates(db, businessId);
+    amountChanged = await applyAmountChange(
+      db,
+      order,
+      lineChange,
+      chargeFor([
+        {
+          orderItemId: item.id,
+          productId: item.productId,
+          name: item.name,
+          quantity: change,
+          unitPrice: item.price,
+          tax: rateFor(item.product),
+        },
+      ])
+    );
+  } else {
+    const removedDiscount =
+      order.subtotal && order.subtotal > 0
+        ? order.discountAmount * (-lineChange / order.subtotal)
+        : 0;
+    amountChanged = await repriceOrder(
+      db,
+      orderId,
+      order.discountAmount - removedDiscount
+    );
+  }
+
+  return { order, item: { ...item, quantity }, amountChanged };
+}
+
+// Takes a line off the order before the kitchen has started on it. Anything
+// further along is a void and needs a manager.
+export async function removeOrderItem(
+  db: PrismaLike,
+  businessId: number,
+  orderId: number,
+  itemId: number,
+  actor: StatusActor,
+  detail: TransitionDetail
+) {
+  const order = await loadEditableOrder(db, businessId, orderId);
+  const item = order.items.find((i) => i.id === itemId);
+  if (!item || parseItemStatus(item.status) === "Cancelled") {
+    throw new OrderEditError("Item not found in order");
+  }
+  if (parseItemStatus(item.status) !== "Pending") {
+    throw new OrderEditError(
+      `${item.name} is already ${item.status}, void it instead`
+    );
+  }
+
+  return voidOrderItem(db, orderId, itemId, actor, detail, { restock: true });
+}
@@ -0,0 +1,212 @@
+// src/utils/orderEvents.ts
+
+import { EventEmitter } from "events";
+import { Response } from "express";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  CLOSED_ORDER_STATUSES,
+  OrderStatus,
+  orderProgress,
+  parseOrderStatus,
+} from "./orderStatus";
+import { orderRefFields } from "./orderRefs";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export type OrderEventType =
+  | "order-created"
+  | "order-status-changed"
+  | "order-completed"
+  | "item-status-changed"
+  | "order-items-added"
+  | "item-quantity-changed"
+  | "order-released"
+  | "order-moved"
+  | "table-status";
+
+export interface OrderEvent {
+  id: number;
+  type: OrderEventType;
+  businessId: number;
+  data: unknown;
+  createdAt: Date;
+}
+
+// Events kept per business so a reconnecting screen can catch up
+const REPLAY_LIMIT = 500;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const buffers = new Map<number, OrderEvent[]>();
+// Highest event id that has been dropped from each business's buffer
+const evictedUpTo = new Map<number, number>();
+let lastEventId = 0;
+
+export function publishOrderEvent(
+  businessId: number,
+  type: OrderEventType,
+  data: unknown
+): OrderEvent {
+  const event: OrderEvent = {
+    id: ++lastEventId,
+    type,
+    businessId,
+    data,
+    createdAt: new Date(),
+  };
+
+  const buffer = buffers.get(businessId) ?? [];
+  buffer.push(event);
+  if (buffer.length > REPLAY_LIMIT) {
+    const dropped = buffer.shift()!;
+    evictedUpTo.set(businessId, dropped.id);
+  }
+  buffers.set(businessId, buffer);
+
+  emitter.emit(`business:${businessId}`, event);
+  return event;
+}
+
+// Returns null when the requested id can't be replayed (too old, or from
+// before a server restart) and the client has to reload from the REST API
+export function eventsSince(
+  businessId: number,
+  sinceId: number
+): OrderEvent[] | null {
+  if (sinceId > lastEventId) return null;
+  if (sinceId < (evictedUpTo.get(businessId) ?? 0)) return null;
+  return (buffers.get(businessId) ?? []).filter((e) => e.id > sinceId);
+}
+
+export function subscribeOrderEvents(
+  businessId: number,
+  listener: (event: OrderEvent) => void
+): () => void {
+  const channel = `business:${businessId}`;
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
+
+export function writeSseEvent(res: Response, event: OrderEvent) {
+  res.write(`id: ${event.id}\n`);
+  res.write(`event: ${event.type}\n`);
+  res.write(`data: ${JSON.stringify(event.data)}\n\n`);
+}
+
+// Recomputes a table's occupancy the same way GET /api/tables does
+export async function publishTableStatus(
+  db: PrismaLike,
+  businessId: number,
+  tableNumber: number | null
+) {
+  // Takeaway and delivery orders don't occupy a table
+  if (tableNumber === null) return;
+
+  const openOrders = await db.order.count({
+    where: {
+      businessId,
+      tableNumber,
+      orderType: "dine-in",
+      status: { notIn: CLOSED_ORDER_STATUSES },
+    },
+  });
+
+  publishOrderEvent(businessId, "table-status", {
+    tableNumber,
+    status: openOrders > 0 ? "Booked" : "Available",
+  });
+}
+
+export async function publishOrderStatusChange(
+  db: PrismaLike,
+  order: {
+    id: number;
+    businessId: number;
+    tableNumber: number | null;
+    dailyNumber: number | null;
+  },
+  from: string,
+  to: OrderStatus
+) {
+  if (from === to) return;
+
+  const payload = {
+    ...orderRefFields(order),
+    id: order.id,
+    table_number: order.tableNumber,
+    from,
+    status: to,
+  };
+
+  publishOrderEvent(order.businessId, "order-status-changed", payload);
+
+  // Serving a check that was already billed can carry it past Served
+  const served = orderProgress("Served");
+  const fromStatus = parseOrderStatus(from);
+  if (
+    orderProgress(to) >= served &&
+    (!fromStatus || orderProgress(fromStatus) < served)
+  ) {
+    publishOrderEvent(order.businessId, "order-completed", payload);
+  }
+
+  if (CLOSED_ORDER_STATUSES.includes(to)) {
+    await publishTableStatus(db, order.businessId, order.tableNumber);
+  }
+}
+
+// Tells kitchen screens about pre-orders as they come within their
+// business's lead time. The releasedAt guard stops two server instances
+// announcing the same order.
+export async function releaseScheduledOrders(db: PrismaLike, now = new Date()) {
+  const candidates = await db.order.findMany({
+    where: {
+      scheduledFor: { not: null, lte: new Date(now.getTime() + 86400000) },
+      releasedAt: null,
+      status: { notIn: CLOSED_ORDER_STATUSES },
+    },
+    include: {
+      items: true,
+      business: { select: { preorderLeadMinutes: true } },
+    },
+  });
+
+  for (const order of candidates) {
+    const releaseAt =
+      order.scheduledFor!.getTime() -
+      order.business.preorderLeadMinutes * 60 * 1000;
+    if (releaseAt > now.getTime()) continue;
+
+    const { count } = await db.order.updateMany({
+      where: { id: order.id, releasedAt: null },
+      data: { releasedAt: now },
+    });
+    if (count === 0) continue;
+
+    publishOrderEvent(order.businessId, "order-released", {
+      ...orderRefFields(order),
+      id: order.id,
+      order_type: order.orderType,
+      table_number: order.tableNumber,
+      status: order.status,
+      scheduled_for: order.scheduledFor,
+      items: order.items,
+    });
+  }
+}
+
+export function startScheduledOrderRelease(
+  db: PrismaClient,
+  intervalMs = 60000
+) {
+  const timer = setInterval(() => {
+    releaseScheduledOrders(db).catch((err) =>
+      console.error("❌ Failed to release scheduled orders:", err)
+    );
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
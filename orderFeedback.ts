@@ -0,0 +1,179 @@
+// src/utils/orderFeedback.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  FULFILLED_ORDER_STATUSES,
+  parseItemStatus,
+  parseOrderStatus,
+} from "./orderStatus";
+import { serviceDateFor } from "./orderRefs";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Ratings at or below this are flagged for the owner to follow up
+export const LOW_RATING = 2;
+
+export class FeedbackError extends Error {}
+export class FeedbackExistsError extends Error {}
+
+export interface FeedbackInput {
+  rating: unknown;
+  comment?: unknown;
+  items?: { itemId: unknown; rating: unknown; comment?: unknown }[];
+}
+
+function parseRating(value: unknown, label: string): number {
+  const rating = Number(value);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new FeedbackError(`${label} must be a whole number from 1 to 5`);
+  }
+  return rating;
+}
+
+const parseComment = (value: unknown) => {
+  const comment = value ? String(value).trim().slice(0, 1000) : "";
+  return comment || null;
+};
+
+// Records one rating for the order and optional ratings for its items.
+// Only orders that reached the guest can be rated, and only once.
+export async function submitFeedback(
+  db: PrismaLike,
+  orderId: number,
+  input: FeedbackInput,
+  customerId: number | null
+) {
+  const order = await db.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { items: true, feedback: true },
+  });
+
+  const status = parseOrderStatus(order.status);
+  if (!status || !FULFILLED_ORDER_STATUSES.includes(status)) {
+    throw new FeedbackError("Orders can be rated once they are completed");
+  }
+  if (order.feedback) {
+    throw new FeedbackExistsError("This order has already been rated");
+  }
+
+  const rating = parseRating(input.rating, "rating");
+  const itemInputs = Array.isArray(input.items) ? input.items : [];
+  const items = itemInputs.map((entry) => {
+    const item = order.items.find((i) => i.id === Number(entry.itemId));
+    if (!item || parseItemStatus(item.status) === "Cancelled") {
+      throw new FeedbackError(`Item ${entry.itemId} is not on this order`);
+    }
+    return {
+      orderItemId: item.id,
+      productId: item.productId,
+      rating: parseRating(entry.rating, `Rating for ${item.name}`),
+      comment: parseComment(entry.comment),
+    };
+  });
+  if (new Set(items.map((i) => i.orderItemId)).size !== items.length) {
+    throw new FeedbackError("Each item can only be rated once");
+  }
+
+  // Two submissions at once both pass the check above; the unique order id
+  // lets only one of them in
+  try {
+    return await db.orderFeedback.create({
+      data: {
+        orderId,
+        businessId: order.businessId,
+        customerId,
+        rating,
+        comment: parseComment(input.comment),
+        isFlagged:
+          rating <= LOW_RATING || items.some((i) => i.rating <= LOW_RATING),
+        items: { create: items },
+      },
+      include: { items: true },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw new FeedbackExistsError("This order has already been rated");
+    }
+    throw error;
+  }
+}
+
+interface RatingBucket {
+  total: number;
+  count: number;
+  low: number;
+}
+
+const addRating = (bucket: RatingBucket, rating: number) => {
+  bucket.total += rating;
+  bucket.count += 1;
+  if (rating <= LOW_RATING) bucket.low += 1;
+};
+
+const bucketView = ({ total, count, low }: RatingBucket) => ({
+  average: count ? Math.round((total / count) * 100) / 100 : null,
+  count,
+  low_count: low,
+});
+
+// Average ratings per product (from item ratings) and per business-local
+// day (from order ratings) for feedback left between `from` and `to`
+export async function feedbackSummary(
+  db: PrismaLike,
+  businessId: number,
+  from: Date,
+  to: Date
+) {
+  const feedback = await db.orderFeedback.findMany({
+    where: { businessId, createdAt: { gte: from, lte: to } },
+    include: { items: { include: { product: { select: { name: true } } } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const products = new Map<number, RatingBucket & { name: string }>();
+  const days = new Map<string, RatingBucket>();
+
+  for (const entry of feedback) {
+    const day = serviceDateFor(entry.createdAt);
+    if (!days.has(day)) days.set(day, { total: 0, count: 0, low: 0 });
+    addRating(days.get(day)!, entry.rating);
+
+    for (const item of entry.items) {
+      if (!products.has(item.productId)) {
+        products.set(item.productId, {
+          name: item.product.name,
+          total: 0,
+          count: 0,
+          low: 0,
+        });
+      }
+      addRating(products.get(item.productId)!, item.rating);
+    }
+  }
+
+  return {
+    products: [...products.entries()]
+      .map(([productId, bucket]) => ({
+        productId,
+        name: bucket.name,
+        ...bucketView(bucket),
+      }))
+      .sort((a, b) => (a.average ?? 0) - (b.average ?? 0)),
+    days: [...days.entries()].map(([date, bucket]) => ({
+      date,
+      ...bucketView(bucket),
+    })),
+    overall: bucketView(
+      feedback.reduce(
+        (bucket, entry) => {
+          addRating(bucket, entry.rating);
+          return bucket;
+        },
+        { total: 0, count: 0, low: 0 }
+      )
+    ),
+  };
+}
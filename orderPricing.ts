@@ -0,0 +1,397 @@
+// src/utils/orderPricing.ts
+
+import { Coupon, Prisma, PrismaClient } from "@prisma/client";
+import { getOrderTypeCharges, OrderType } from "./orderTypes";
+import {
+  computeTax,
+  loadTaxRates,
+  standardTax,
+  TaxableLine,
+  TaxRate,
+} from "./taxEngine";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Value of one loyalty point in rupees when redeemed against an order
+export const POINT_VALUE = 1;
+
+// Thrown for anything the guest can fix (unknown product, bad coupon, ...)
+export class OrderPricingError extends Error {}
+
+export interface CartItemInput {
+  productId: number;
+  variantId?: number;
+  quantity: number;
+  modifiers?: (number | { optionId: number })[];
+  note?: string;
+}
+
+// What gets stored on OrderItem.modifiers and printed on tickets and bills
+export interface ChosenModifier {
+  groupId: number;
+  group: string;
+  optionId: number;
+  name: string;
+  priceDelta: number;
+}
+
+export interface PricedLine {
+  productId: number;
+  variantId: number | null;
+  variantName: string | null;
+  name: string;
+  unitPrice: number; // variant (or product) price plus modifier deltas
+  modifiers: ChosenModifier[];
+  note: string | null;
+  quantity: number;
+  lineTotal: number;
+  category: string | null;
+  metadata: Prisma.JsonValue | null;
+  recipe: Prisma.JsonValue | null; // variant ingredients, if the variant has its own
+  tax: TaxRate; // from the product's or category's tax class
+}
+
+export interface OrderPricing {
+  lines: PricedLine[];
+  orderType: OrderType;
+  subtotal: number;
+  coupon: { id: number; code: string; usageLimit: number } | null;
+  couponDiscount: number;
+  pointsRedeemed: number;
+  pointsDiscount: number;
+  packagingCharge: number;
+  deliveryFee: number;
+  taxRate: number; // standard rate; lines may carry their own
+  taxAmount: number;
+  total: number;
+}
+
+interface PriceOrderInput {
+  businessId: number;
+  orderType?: OrderType;
+  cartItems: CartItemInput[];
+  couponCode?: string;
+  pointsUsed?: number;
+  availablePoints?: number;
+}
+
+export const roundMoney = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Shared by coupon validation and order placement so both agree on the discount
+export const computeCouponDiscount = (
+  coupon: Coupon,
+  orderTotal: number
+): number => {
+  let discount = 0;
+  if (coupon.discountType === "flat") {
+    discount = coupon.discountValue;
+  } else if (coupon.discountType === "percent") {
+    discount = (coupon.discountValue / 100) * orderTotal;
+    if (coupon.maxDiscount && discount > coupon.maxDiscount) {
+      discount = coupon.maxDiscount;
+    }
+  }
+  return Math.min(discount, orderTotal);
+};
+
+type ProductWithModifiers = Prisma.ProductGetPayload<{
+  include: { modifierGroups: { include: { options: true } }; variants: true };
+}>;
+
+// Products with variants must be ordered as one of them; the default
+// variant (or the only one) is used when the cart does not say which
+function resolveVariant(
+  product: ProductWithModifiers,
+  variantId: CartItemInput["variantId"]
+) {
+  const active = product.variants.filter((v) => v.isActive);
+
+  if (variantId !== undefined && variantId !== null) {
+    const variant = active.find((v) => v.id === Number(variantId));
+    if (!variant) {
+      throw new OrderPricingError(
+        `Variant ${variantId} is not available for ${product.name}`
+      );
+    }
+    return variant;
+  }
+
+  if (active.length === 0) return null;
+  const fallback =
+    active.find((v) => v.isDefault) ?? (active.length === 1 ? active[0] : null);
+  if (!fallback) {
+    throw new OrderPricingError(`Choose a variant for ${product.name}`);
+  }
+  return fallback;
+}
+
+// Checks the chosen options against each group's required/min/max rules
+function resolveModifiers(
+  product: ProductWithModifiers,
+  selection: CartItemInput["modifiers"]
+): ChosenModifier[] {
+  if (!Array.isArray(selection)) {
+    throw new OrderPricingError(`Invalid modifiers for ${product.name}`);
+  }
+
+  const optionIds = selection.map((m) =>
+    Number(typeof m === "object" && m !== null ? m.optionId : m)
+  );
+  if (new Set(optionIds).size !== optionIds.length) {
+    throw new OrderPricingError(`Duplicate modifier for ${product.name}`);
+  }
+
+  const chosen: ChosenModifier[] = [];
+  for (const optionId of optionIds) {
+    const group = product.modifierGroups.find((g) =>
+      g.options.some((o) => o.id === optionId)
+    );
+    const option = group?.options.find((o) => o.id === optionId);
+    if (!group || !option || !option.isActive) {
+      throw new OrderPricingError(
+        `Modifier ${optionId} is not available for ${product.name}`
+      );
+    }
+    chosen.push({
+      groupId: group.id,
+      group: group.name,
+      optionId: option.id,
+      name: option.name,
+      priceDelta: option.priceDelta,
+    });
+  }
+
+  for (const group of product.modifierGroups) {
+    const count = chosen.filter((m) => m.groupId === group.id).length;
+    const min = group.required ? Math.max(1, group.minSelect) : group.minSelect;
+    if (count < min) {
+      throw new OrderPricingError(
+        `Choose at least ${min} option(s) for ${group.name} on ${product.name}`
+      );
+    }
+    if (count > group.maxSelect) {
+      throw new OrderPricingError(
+        `Choose at most ${group.maxSelect} option(s) for ${group.name} on ${product.name}`
+      );
+    }
+  }
+
+  return chosen;
+}
+
+// Prices each cart line from the Product table; client-sent prices and
+// names are ignored
+export async function priceLines(
+  db: PrismaLike,
+  businessId: number,
+  cartItems: CartItemInput[]
+): Promise<PricedLine[]> {
+  for (const item of cartItems) {
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new OrderPricingError(
+        `Invalid quantity for product ${item.productId}`
+      );
+    }
+  }
+
+  const productIds = [
+    ...new Set(cartItems.map((item) => Number(item.productId))),
+  ];
+  const products = await db.product.findMany({
+    where: { id: { in: productIds }, businessId },
+    include: { modifierGroups: { include: { options: true } }, variants: true },
+  });
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const { rateFor } = await loadTaxRates(db, businessId);
+
+  return cartItems.map((item) => {
+    const product = productsById.get(Number(item.productId));
+    if (!product) {
+      throw new OrderPricingError(`Product ${item.productId} not found`);
+    }
+    if (!product.isActive) {
+      throw new OrderPricingError(`${product.name} is currently unavailable`);
+    }
+
+    const quantity = Number(item.quantity);
+    const variant = resolveVariant(product, item.variantId);
+    const modifiers = resolveModifiers(product, item.modifiers ?? []);
+    const unitPrice = roundMoney(
+      modifiers.reduce(
+        (sum, m) => sum + m.priceDelta,
+        variant?.price ?? product.price
+      )
+    );
+    const note = item.note ? String(item.note).trim().slice(0, 200) : "";
+
+    return {
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      variantName: variant?.name ?? null,
+      name: product.name,
+      unitPrice,
+      modifiers,
+      note: note || null,
+      quantity,
+      lineTotal: roundMoney(unitPrice * quantity),
+      category: product.category,
+      metadata: product.metadata,
+      recipe: variant?.ingredients ?? null,
+      tax: rateFor(product),
+    };
+  });
+}
+
+// Lines in the shape the tax engine works on
+export const taxableLines = (lines: PricedLine[]): TaxableLine[] =>
+  lines.map((line) => ({
+    orderItemId: null,
+    productId: line.productId,
+    name: line.name,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    tax: line.tax,
+  }));
+
+// Prices a whole order: lines, coupon, points, order type charges and tax
+export async function priceOrder(
+  db: PrismaLike,
+  input: PriceOrderInput
+): Promise<OrderPricing> {
+  const { businessId, cartItems } = input;
+  const orderType = input.orderType ?? "dine-in";
+
+  const lines = await priceLines(db, businessId, cartItems);
+  const subtotal = roundMoney(
+    lines.reduce((sum, line) => sum + line.lineTotal, 0)
+  );
+
+  let coupon: Coupon | null = null;
+  let couponDiscount = 0;
+  if (input.couponCode) {
+    const now = new Date();
+    coupon = await db.coupon.findFirst({
+      where: {
+        code: input.couponCode.toUpperCase(),
+        businessId,
+        validFrom: { lte: now },
+        validTill: { gte: now },
+      },
+    });
+
+    if (!coupon) {
+      throw new OrderPricingError("Coupon not found or expired");
+    }
+    if (coupon.usedCount >= coupon.usageLimit) {
+      throw new OrderPricingError("Coupon usage limit reached");
+    }
+    if (subtotal < coupon.minOrderValue) {
+      throw new OrderPricingError(
+        `Minimum order value must be ₹${coupon.minOrderValue}`
+      );
+    }
+    couponDiscount = roundMoney(computeCouponDiscount(coupon, subtotal));
+  }
+
+  const afterCoupon = roundMoney(subtotal - couponDiscount);
+
+  const pointsRequested = Math.floor(Number(input.pointsUsed) || 0);
+  let pointsRedeemed = 0;
+  if (pointsRequested > 0) {
+    if (input.availablePoints === undefined) {
+      throw new OrderPricingError("Log in to redeem loyalty points");
+    }
+    if (input.availablePoints < pointsRequested) {
+      throw new OrderPricingError("Not enough loyalty points");
+    }
+    // Never redeem more points than the order is worth
+    pointsRedeemed = Math.min(
+      pointsRequested,
+      Math.floor(afterCoupon / POINT_VALUE)
+    );
+  }
+  const pointsDiscount = roundMoney(pointsRedeemed * POINT_VALUE);
+
+  const business = await db.business.findUnique({
+    where: { id: businessId },
+    select: { taxRate: true },
+  });
+  if (!business) {
+    throw new OrderPricingError("Business not found");
+  }
+
+  const charges = await getOrderTypeCharges(db, businessId, orderType);
+  if (!charges.isEnabled) {
+    throw new OrderPricingError(`${orderType} orders are not available`);
+  }
+
+  // Each line at its own rate; packaging and delivery are part of the
+  // supply, so they are taxed too, at the standard rate
+  const standard = standardTax(business.taxRate);
+  const chargeLines: TaxableLine[] = [
+    { name: "Packaging charge", amount: charges.packagingCharge },
+    { name: "Delivery fee", amount: charges.deliveryFee },
+  ]
+    .filter((charge) => charge.amount > 0)
+    .map((charge) => ({
+      orderItemId: null,
+      productId: null,
+      name: charge.name,
+      quantity: 1,
+      unitPrice: charge.amount,
+      tax: standard,
+      isCharge: true,
+    }));
+  const tax = computeTax([...taxableLines(lines), ...chargeLines], {
+    discount: couponDiscount + pointsDiscount,
+    serviceChargeRate: 0,
+    interState: false,
+  });
+
+  return {
+    lines,
+    orderType,
+    subtotal,
+    coupon: coupon
+      ? { id: coupon.id, code: coupon.code, usageLimit: coupon.usageLimit }
+      : null,
+    couponDiscount,
+    pointsRedeemed,
+    pointsDiscount,
+    packagingCharge: charges.packagingCharge,
+    deliveryFee: charges.deliveryFee,
+    taxRate: business.taxRate,
+    taxAmount: tax.taxAmount,
+    total: tax.total,
+  };
+}
+
+export const formatLine = (line: PricedLine) => ({
+  productId: line.productId,
+  variantId: line.variantId,
+  variant: line.variantName,
+  name: line.name,
+  unit_price: line.unitPrice,
+  modifiers: line.modifiers,
+  note: line.note,
+  quantity: line.quantity,
+  line_total: line.lineTotal,
+});
+
+// Customer-facing breakdown returned by the order routes
+export const formatPricing = (pricing: OrderPricing) => ({
+  items: pricing.lines.map(formatLine),
+  subtotal: pricing.subtotal,
+  coupon_code: pricing.coupon?.code ?? null,
+  coupon_discount: pricing.couponDiscount,
+  points_redeemed: pricing.pointsRedeemed,
+  points_discount: pricing.pointsDiscount,
+  order_type: pricing.orderType,
+  packaging_charge: pricing.packagingCharge,
+  delivery_fee: pricing.deliveryFee,
+  tax_rate: pricing.taxRate,
+  tax_amount: pricing.taxAmount,
+  total: pricing.total,
+});
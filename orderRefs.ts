@@ -0,0 +1,58 @@
+// src/utils/orderRefs.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { BUSINESS_UTC_OFFSET_MINUTES } from "./orderScheduling";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Global order reference used in URLs and receipts, e.g. ORD00042
+export const formatOrderRef = (orderId: number): string =>
+  `ORD${orderId.toString().padStart(5, "0")}`;
+
+// Accepts "ORD00042", "ord42" or "42". Like parseInt, returns NaN for
+// anything else.
+export function parseOrderRef(raw: string | number): number {
+  const match = /^(?:ORD)?0*(\d+)$/i.exec(String(raw).trim());
+  return match ? Number(match[1]) : NaN;
+}
+
+// The short number called out in the kitchen and printed on bills, e.g. #7
+export const formatTicketNumber = (
+  dailyNumber: number | null
+): string | null => (dailyNumber ? `#${dailyNumber}` : null);
+
+// Business-local calendar day (YYYY-MM-DD) that a daily number belongs to
+export function serviceDateFor(date: Date): string {
+  const local = new Date(
+    date.getTime() + BUSINESS_UTC_OFFSET_MINUTES * 60 * 1000
+  );
+  return local.toISOString().slice(0, 10);
+}
+
+// Hands out the next #n for the business's day. The counter row is
+// locked by the increment, so concurrent orders never share a number.
+export async function nextDailyNumber(
+  db: PrismaLike,
+  businessId: number,
+  serviceDate: string
+): Promise<number> {
+  await db.dailyOrderCounter.createMany({
+    data: [{ businessId, serviceDate }],
+    skipDuplicates: true,
+  });
+
+  const counter = await db.dailyOrderCounter.update({
+    where: { businessId_serviceDate: { businessId, serviceDate } },
+    data: { lastNumber: { increment: 1 } },
+  });
+  return counter.lastNumber;
+}
+
+// Both references, for responses, events and printed tickets
+export const orderRefFields = (order: {
+  id: number;
+  dailyNumber: number | null;
+}) => ({
+  order_id: formatOrderRef(order.id),
+  ticket_number: formatTicketNumber(order.dailyNumber),
+});
@@ -0,0 +1,265 @@
+// src/utils/orderReversal.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { adjustInventory } from "./inventoryUsage";
+import {
+  OrderStatus,
+  parseItemStatus,
+  StatusActor,
+  TransitionDetail,
+  transitionItems,
+  transitionOrder,
+} from "./orderStatus";
+import { roundMoney } from "./orderPricing";
+import { computeOrderTax } from "./taxEngine";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// An issued invoice is final; money is given back with a credit note
+async function assertNotBilled(db: PrismaLike, orderId: number) {
+  if (await db.bill.count({ where: { orderId } })) {
+    throw new OrderReversalError(
+      "This order has been billed; refund it with a credit note instead"
+    );
+  }
+}
+
+export const REASON_CODES = [
+  "CUSTOMER_REQUEST",
+  "OUT_OF_STOCK",
+  "WRONG_ITEM",
+  "QUALITY_ISSUE",
+  "DUPLICATE_ORDER",
+  "KITCHEN_ERROR",
+  "OTHER",
+] as const;
+export type ReasonCode = (typeof REASON_CODES)[number];
+
+export class OrderReversalError extends Error {}
+
+// Validates the reason sent with a cancel/void; OTHER needs a note
+export function parseReason(reasonCode: unknown, note: unknown) {
+  const code = REASON_CODES.find(
+    (c) => c === String(reasonCode ?? "").toUpperCase()
+  );
+  if (!code) {
+    throw new OrderReversalError(
+      `reasonCode must be one of ${REASON_CODES.join(", ")}`
+    );
+  }
+  if (code === "OTHER" && !note) {
+    throw new OrderReversalError("A note is required when reasonCode is OTHER");
+  }
+  return { reasonCode: code, note: note ? String(note) : undefined };
+}
+
+// Points never go below zero, even if earned points were already spent
+export async function adjustCustomer(
+  db: PrismaLike,
+  customerId: number,
+  change: { orders: number; spent: number; points: number }
+) {
+  const customer = await db.customer.findUnique({ where: { id: customerId } });
+  if (!customer) return;
+
+  await db.customer.update({
+    where: { id: customerId },
+    data: {
+      totalOrders: Math.max(0, customer.totalOrders + change.orders),
+      totalMoneySpent: roundMoney(
+        Math.max(0, customer.totalMoneySpent + change.spent)
+      ),
+      points: Math.max(0, customer.points + change.points),
+    },
+  });
+}
+
+// Reprices the order from its live lines with the tax engine, the way it
+// will be billed, once lines have been voided, reduced or moved off it.
+// Packaging and delivery are fixed charges and stay whole; `discountAmount`
+// is what is still taken off the items. Returns how much the total moved.
+export async function repriceOrder(
+  db: PrismaLike,
+  orderId: number,
+  discountAmount: number
+) {
+  await db.order.update({
+    where: { id: orderId },
+    data: { discountAmount: roundMoney(Math.max(0, discountAmount)) },
+  });
+  const { order, breakdown } = await computeOrderTax(db, orderId, {
+    serviceCharge: false,
+  });
+
+  const previousTotal = order.totalAmount ?? 0;
+  const total = roundMoney(breakdown.total);
+  const pointsEarned = order.customerId ? Math.floor(total / 100) : 0;
+  const subtotal = roundMoney(
+    breakdown.lines
+      .filter((line) => line.orderItemId !== null)
+      .reduce((sum, line) => sum + line.gross, 0)
+  );
+
+  await db.order.update({
+    where: { id: orderId },
+    data: { subtotal, totalAmount: total, pointsEarned },
+  });
+
+  if (order.customerId) {
+    await adjustCustomer(db, order.customerId, {
+      orders: 0,
+      spent: total - previousTotal,
+      points: pointsEarned - order.pointsEarned,
+    });
+  }
+
+  return roundMoney(total - previousTotal);
+}
+
+interface ReversalOptions {
+  restock: boolean;
+}
+
+// Cancels (or rejects) the order and every item not yet served, then undoes
+// its side effects: inventory, customer stats, loyalty points and the
+// coupon use
+export async function cancelOrder(
+  db: PrismaLike,
+  orderId: number,
+  actor: StatusActor,
+  detail: TransitionDetail,
+  options: ReversalOptions & { to?: "Cancelled" | "Rejected" }
+) {
+  const order = await db.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { items: { include: { product: true, variant: true } } },
+  });
+  await assertNotBilled(db, orderId);
+
+  const status = await transitionOrder(
+    db,
+    orderId,
+    options.to ?? "Cancelled",
+    actor,
+    detail
+  );
+
+  const openItems = order.items.filter((item) => {
+    const status = parseItemStatus(item.status);
+    return status !== "Served" && status !== "Cancelled";
+  });
+  await transitionItems(
+    db,
+    orderId,
+    openItems.map((item) => item.id),
+    "Cancelled",
+    actor,
+    detail
+  );
+
+  if (options.restock) {
+    await adjustInventory(
+      db,
+      order.businessId,
+      openItems.map((item) => ({
+        quantity: item.quantity,
+        metadata: item.product.metadata,
+        recipe: item.variant?.ingredients,
+      })),
+      "restore"
+    );
+  }
+
+  // Guarded so a coupon reset by the owner never goes below zero
+  if (order.couponId) {
+    await db.coupon.updateMany({
+      where: { id: order.couponId, usedCount: { gt: 0 } },
+      data: { usedCount: { decrement: 1 } },
+    });
+  }
+
+  if (order.customerId) {
+    await adjustCustomer(db, order.customerId, {
+      orders: -1,
+      spent: -(order.totalAmount ?? 0),
+      points: order.pointsRedeemed - order.pointsEarned,
+    });
+  }
+
+  return {
+    order,
+    status,
+    cancelledItemIds: openItems.map((item) => item.id),
+  };
+}
+
+// Voids one line. The discount shrinks with the items it was taken off and
+// the order is repriced without the line.
+export async function voidOrderItem(
+  db: PrismaLike,
+  orderId: number,
+  itemId: number,
+  actor: StatusActor,
+  detail: TransitionDetail,
+  options: ReversalOptions
+) {
+  const order = await db.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { items: { include: { product: true, variant: true } } },
+  });
+  await assertNotBilled(db, orderId);
+
+  const item = order.items.find((i) => i.id === itemId);
+  if (!item) {
+    throw new OrderReversalError("Item not found in order");
+  }
+  if (parseItemStatus(item.status) === "Cancelled") {
+    throw new OrderReversalError("Item has already been voided");
+  }
+
+  const remaining = order.items.filter(
+    (i) => i.id !== itemId && parseItemStatus(i.status) !== "Cancelled"
+  );
+  if (remaining.length === 0) {
+    throw new OrderReversalError(
+      "This is the last item on the order, cancel the order instead"
+    );
+  }
+
+  const orderStatus: OrderStatus = await transitionItems(
+    db,
+    orderId,
+    [itemId],
+    "Cancelled",
+    actor,
+    detail
+  );
+
+  const lineTotal = item.price * item.quantity;
+  const voidedDiscount =
+    order.subtotal && order.subtotal > 0
+      ? order.discountAmount * (lineTotal / order.subtotal)
+      : 0;
+  const amountVoided = -(await repriceOrder(
+    db,
+    orderId,
+    order.discountAmount - voidedDiscount
+  ));
+
+  if (options.restock) {
+    await adjustInventory(
+      db,
+      order.businessId,
+      [
+        {
+          quantity: item.quantity,
+          metadata: item.product.metadata,
+          recipe: item.variant?.ingredients,
+        },
+      ],
+      "restore"
+    );
+  }
+
+  return { order, item, orderStatus, amountVoided };
+}
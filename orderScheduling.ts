@@ -0,0 +1,162 @@
+// src/utils/orderScheduling.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// How far ahead guests may book a pickup/delivery slot
+export const MAX_DAYS_AHEAD = 7;
+
+// IST, matching the day boundaries used by GET /api/orders
+export const BUSINESS_UTC_OFFSET_MINUTES = 330;
+
+export class OrderSchedulingError extends Error {}
+export class SlotFullError extends OrderSchedulingError {}
+
+export interface SlotSettings {
+  preorderSlotMinutes: number;
+  preorderSlotCapacity: number | null;
+  preorderLeadMinutes: number;
+}
+
+const addMinutes = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60 * 1000);
+
+// UTC instant of business-local midnight for a YYYY-MM-DD day; Invalid Date
+// if the day can't be parsed
+export function businessDayStart(day: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) return new Date(NaN);
+  const [, year, month, date] = match.map(Number);
+  return new Date(
+    Date.UTC(year, month - 1, date) - BUSINESS_UTC_OFFSET_MINUTES * 60 * 1000
+  );
+}
+
+// Parses scheduled_for and checks it is a bookable slot start
+export function parseScheduledFor(
+  value: unknown,
+  settings: SlotSettings,
+  now = new Date()
+): Date {
+  const scheduledFor = new Date(String(value));
+  if (isNaN(scheduledFor.getTime())) {
+    throw new OrderSchedulingError("scheduled_for must be an ISO date-time");
+  }
+
+  // Slots start at local midnight, so align in business local time
+  const slotMs = settings.preorderSlotMinutes * 60 * 1000;
+  const localMs =
+    scheduledFor.getTime() + BUSINESS_UTC_OFFSET_MINUTES * 60 * 1000;
+  if (localMs % slotMs !== 0) {
+    throw new OrderSchedulingError(
+      `Pick a time on a ${settings.preorderSlotMinutes}-minute slot boundary`
+    );
+  }
+  if (scheduledFor < addMinutes(now, settings.preorderLeadMinutes)) {
+    throw new OrderSchedulingError(
+      `Scheduled orders must be at least ${settings.preorderLeadMinutes} minutes ahead`
+    );
+  }
+  if (scheduledFor > addMinutes(now, MAX_DAYS_AHEAD * 24 * 60)) {
+    throw new OrderSchedulingError(
+      `Orders can be scheduled at most ${MAX_DAYS_AHEAD} days ahead`
+    );
+  }
+  return scheduledFor;
+}
+
+// Takes one place in the slot. The guarded increment means two guests
+// can't both take the last place.
+export async function reserveSlot(
+  db: PrismaLike,
+  businessId: number,
+  slotStart: Date,
+  capacity: number | null
+) {
+  await db.orderSlot.createMany({
+    data: [{ businessId, slotStart }],
+    skipDuplicates: true,
+  });
+
+  const { count } = await db.orderSlot.updateMany({
+    where: {
+      businessId,
+      slotStart,
+      ...(capacity !== null ? { booked: { lt: capacity } } : {}),
+    },
+    data: { booked: { increment: 1 } },
+  });
+  if (count === 0) {
+    throw new SlotFullError("This slot is fully booked, please pick another");
+  }
+}
+
+// Gives the place back when a scheduled order is cancelled or rejected
+export async function releaseSlot(
+  db: PrismaLike,
+  businessId: number,
+  slotStart: Date
+) {
+  await db.orderSlot.updateMany({
+    where: { businessId, slotStart, booked: { gt: 0 } },
+    data: { booked: { decrement: 1 } },
+  });
+}
+
+// Bookable slots for one calendar day (YYYY-MM-DD, business local time)
+export async function listSlots(
+  db: PrismaLike,
+  businessId: number,
+  settings: SlotSettings,
+  day: string,
+  now = new Date()
+) {
+  const dayStart = businessDayStart(day);
+  if (isNaN(dayStart.getTime())) {
+    throw new OrderSchedulingError("date must be YYYY-MM-DD");
+  }
+  const dayEnd = addMinutes(dayStart, 24 * 60);
+
+  const booked = await db.orderSlot.findMany({
+    where: { businessId, slotStart: { gte: dayStart, lt: dayEnd } },
+  });
+  const bookedByTime = new Map(
+    booked.map((slot) => [slot.slotStart.getTime(), slot.booked])
+  );
+
+  const earliest = addMinutes(now, settings.preorderLeadMinutes);
+  const latest = addMinutes(now, MAX_DAYS_AHEAD * 24 * 60);
+  const slots = [];
+  for (
+    let start = dayStart;
+    start < dayEnd;
+    start = addMinutes(start, settings.preorderSlotMinutes)
+  ) {
+    if (start < earliest || start > latest) continue;
+    const taken = bookedByTime.get(start.getTime()) ?? 0;
+    const remaining =
+      settings.preorderSlotCapacity !== null
+        ? Math.max(0, settings.preorderSlotCapacity - taken)
+        : null;
+    slots.push({
+      slot_start: start,
+      booked: taken,
+      remaining,
+      available: remaining === null || remaining > 0,
+    });
+  }
+  return slots;
+}
+
+// Kitchen screens only see scheduled orders once they are within the
+// business's lead time of their slot
+export const kitchenVisibleFilter = (
+  leadMinutes: number,
+  now = new Date()
+): Prisma.OrderWhereInput => ({
+  OR: [
+    { scheduledFor: null },
+    { scheduledFor: { lte: addMinutes(now, leadMinutes) } },
+  ],
+});
@@ -0,0 +1,162 @@
+// src/utils/orderSearch.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { parseOrderStatus } from "./orderStatus";
+import { parseOrderType } from "./orderTypes";
+import { businessDayStart } from "./orderScheduling";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Fields the order history page may sort by; prefix with "-" for descending
+const SORT_FIELDS = ["createdAt", "totalAmount", "tableNumber"] as const;
+type SortField = (typeof SORT_FIELDS)[number];
+
+export class OrderSearchError extends Error {}
+
+type Query = Record<string, unknown>;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+function numberParam(query: Query, name: string): number | undefined {
+  const raw = text(query[name]);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (isNaN(value)) {
+    throw new OrderSearchError(`${name} must be a number`);
+  }
+  return value;
+}
+
+// A bare day (YYYY-MM-DD) is a whole business-local day; anything else must
+// be an ISO date-time
+function dateBound(value: string, name: string, end: boolean): Date {
+  const dayStart = businessDayStart(value);
+  if (!isNaN(dayStart.getTime())) {
+    return end
+      ? new Date(dayStart.getTime() + 24 * 60 * 60 * 1000 - 1)
+      : dayStart;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new OrderSearchError(`${name} must be YYYY-MM-DD or an ISO date`);
+  }
+  return date;
+}
+
+function parseFilters(
+  businessId: number,
+  query: Query
+): Prisma.OrderWhereInput {
+  const where: Prisma.OrderWhereInput = { businessId };
+
+  // `date` is the original single-day filter and still works on its own
+  const from = text(query.from) ?? text(query.date);
+  const to = text(query.to) ?? text(query.date);
+  if (from || to) {
+    where.createdAt = {
+      gte: from ? dateBound(from, "from", false) : undefined,
+      lte: to ? dateBound(to, "to", true) : undefined,
+    };
+  }
+
+  const status = text(query.status);
+  if (status) {
+    const statuses = status.split(",").map((s) => parseOrderStatus(s.trim()));
+    if (statuses.some((s) => !s)) {
+      throw new OrderSearchError("Unknown status in status filter");
+    }
+    const values = statuses as string[];
+    // Old rows may still say "Completed"
+    if (values.includes("Served")) values.push("Completed");
+    where.status = { in: values };
+  }
+
+  const orderType = text(query.orderType);
+  if (orderType) {
+    const parsed = parseOrderType(orderType);
+    if (!parsed) throw new OrderSearchError("Unknown orderType");
+    where.orderType = parsed;
+  }
+
+  const table = numberParam(query, "table");
+  if (table !== undefined) where.tableNumber = table;
+
+  const paymentMethod = text(query.paymentMethod);
+  if (paymentMethod) {
+    where.paymentMethod = { equals: paymentMethod, mode: "insensitive" };
+  }
+
+  // A number is the business's own customer id; otherwise name/email/mobile
+  const customer = text(query.customer);
+  if (customer) {
+    where.customer = /^\d+$/.test(customer)
+      ? { customerId: Number(customer) }
+      : {
+          OR: [
+            { name: { contains: customer, mode: "insensitive" } },
+            { email: { contains: customer, mode: "insensitive" } },
+            { mobile: { contains: customer } },
+          ],
+        };
+  }
+
+  const minAmount = numberParam(query, "minAmount");
+  const maxAmount = numberParam(query, "maxAmount");
+  if (minAmount !== undefined || maxAmount !== undefined) {
+    where.totalAmount = { gte: minAmount, lte: maxAmount };
+  }
+
+  const product = text(query.product);
+  if (product) {
+    where.items = {
+      some: { name: { contains: product, mode: "insensitive" } },
+    };
+  }
+
+  return where;
+}
+
+function parseSort(value: unknown): Prisma.OrderOrderByWithRelationInput[] {
+  const raw = text(value) ?? "-createdAt";
+  const field = raw.replace(/^-/, "") as SortField;
+  if (!SORT_FIELDS.includes(field)) {
+    throw new OrderSearchError(`sort must be one of ${SORT_FIELDS.join(", ")}`);
+  }
+  const direction = raw.startsWith("-") ? "desc" : "asc";
+  // id breaks ties so the cursor always lands in the same place
+  return [{ [field]: direction }, { id: direction }];
+}
+
+// Cursor-paginated search over a business's orders. Pass the returned
+// nextCursor back as ?cursor= to get the following page.
+export async function searchOrders<T extends Prisma.OrderInclude>(
+  db: PrismaLike,
+  businessId: number,
+  query: Query,
+  include: T
+) {
+  const limit = numberParam(query, "limit") ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new OrderSearchError(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  const cursor = numberParam(query, "cursor");
+
+  const rows = await db.order.findMany({
+    where: parseFilters(businessId, query),
+    orderBy: parseSort(query.sort),
+    include,
+    take: limit + 1,
+    ...(cursor !== undefined ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = rows.length > limit;
+  const orders = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    orders: orders as Prisma.OrderGetPayload<{ include: T }>[],
+    nextCursor: hasMore ? orders[orders.length - 1].id : null,
+  };
+}
@@ -0,0 +1,383 @@
+// src/utils/orderStatus.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { BusinessOwnerPayload } from "../middleware/authenticateJWT";
+import { releaseSlot } from "./orderScheduling";
+import { parseTender, recordPayment } from "./payments";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export const ORDER_STATUSES = [
+  "Pending",
+  "Accepted",
+  "Preparing",
+  "Ready",
+  "Served",
+  "Billed",
+  "Paid",
+  "Cancelled",
+  "Rejected",
+  "Merged",
+] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ITEM_STATUSES = [
+  "Pending",
+  "Preparing",
+  "Ready",
+  "Served",
+  "Cancelled",
+] as const;
+export type ItemStatus = (typeof ITEM_STATUSES)[number];
+
+// Allowed next states. Anything not listed here is rejected.
+// Merged: the order's items were moved onto another table's check.
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  Pending: ["Accepted", "Rejected", "Cancelled", "Merged"],
+  Accepted: ["Preparing", "Cancelled", "Merged"],
+  Preparing: ["Ready", "Cancelled", "Merged"],
+  Ready: ["Served", "Cancelled", "Merged"],
+  Served: ["Billed", "Merged"],
+  Billed: ["Paid"],
+  Paid: [],
+  Cancelled: [],
+  Rejected: [],
+  Merged: [],
+};
+
+// Kitchen screens may bump an item straight to Served
+const ITEM_TRANSITIONS: Record<ItemStatus, ItemStatus[]> = {
+  Pending: ["Preparing", "Ready", "Served", "Cancelled"],
+  Preparing: ["Ready", "Served", "Cancelled"],
+  Ready: ["Served", "Cancelled"],
+  Served: [],
+  Cancelled: [],
+};
+
+// Happy path used when an order is advanced automatically
+const ORDER_FLOW: OrderStatus[] = [
+  "Pending",
+  "Accepted",
+  "Preparing",
+  "Ready",
+  "Served",
+  "Billed",
+  "Paid",
+];
+
+// Orders in these states no longer occupy a table or appear on kitchen screens
+export const CLOSED_ORDER_STATUSES: OrderStatus[] = [
+  "Paid",
+  "Cancelled",
+  "Rejected",
+  "Merged",
+];
+
+// Orders whose food has reached the guest; these count as sales
+export const FULFILLED_ORDER_STATUSES: OrderStatus[] = [
+  "Served",
+  "Billed",
+  "Paid",
+];
+
+export class InvalidStatusTransitionError extends Error {}
+
+export interface StatusActor {
+  type: "staff" | "customer" | "system";
+  id?: number;
+}
+
+export const staffActor = (owner?: BusinessOwnerPayload): StatusActor => ({
+  type: "staff",
+  id: owner?.userId,
+});
+
+export const SYSTEM_ACTOR: StatusActor = { type: "system" };
+
+// Why a change was made; cancellations and voids must carry a reason code
+export interface TransitionDetail {
+  note?: string;
+  reasonCode?: string;
+}
+
+// "Completed" was written by older kitchen screens before the lifecycle existed
+export function parseOrderStatus(value: unknown): OrderStatus | null {
+  if (value === "Completed") return "Served";
+  return ORDER_STATUSES.find((status) => status === value) ?? null;
+}
+
+export function parseItemStatus(value: unknown): ItemStatus | null {
+  if (value === "Completed") return "Served";
+  return ITEM_STATUSES.find((status) => status === value) ?? null;
+}
+
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS[from].includes(to);
+
+export const canTransitionItem = (from: ItemStatus, to: ItemStatus) =>
+  ITEM_TRANSITIONS[from].includes(to);
+
+// Position on the happy path (-1 for closed states), for comparing orders
+export const orderProgress = (status: OrderStatus) =>
+  ORDER_FLOW.indexOf(status);
+
+function currentOrderStatus(value: string): OrderStatus {
+  const status = parseOrderStatus(value);
+  if (!status) {
+    throw new InvalidStatusTransitionError(`Unknown order status "${value}"`);
+  }
+  return status;
+}
+
+function currentItemStatus(value: string): ItemStatus {
+  const status = parseItemStatus(value);
+  if (!status) {
+    throw new InvalidStatusTransitionError(`Unknown item status "${value}"`);
+  }
+  return status;
+}
+
+// Writes the initial history row for a freshly created order
+export async function recordOrderCreated(
+  db: PrismaLike,
+  orderId: number,
+  actor: StatusActor
+) {
+  await db.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus: null,
+      toStatus: "Pending",
+      actorType: actor.type,
+      actorId: actor.id,
+    },
+  });
+}
+
+// Records something that happened to an order without changing its status,
+// e.g. a table transfer. fromStatus equals toStatus on these rows.
+export async function recordOrderNote(
+  db: PrismaLike,
+  orderId: number,
+  actor: StatusActor,
+  detail: TransitionDetail
+) {
+  const order = await db.order.findUniqueOrThrow({ where: { id: orderId } });
+  await db.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus: order.status,
+      toStatus: order.status,
+      actorType: actor.type,
+      actorId: actor.id,
+      note: detail.note,
+      reasonCode: detail.reasonCode,
+    },
+  });
+}
+
+// Moves an order one step. The status guard in the where clause makes a
+// concurrent change fail instead of silently overwriting it.
+export async function transitionOrder(
+  db: PrismaLike,
+  orderId: number,
+  to: OrderStatus,
+  actor: StatusActor,
+  detail: TransitionDetail = {}
+) {
+  const order = await db.order.findUniqueOrThrow({ where: { id: orderId } });
+  const from = currentOrderStatus(order.status);
+
+  if (!canTransitionOrder(from, to)) {
+    throw new InvalidStatusTransitionError(
+      `Cannot move order from ${from} to ${to}`
+    );
+  }
+
+  // Billed means an invoice exists; it is reached by issuing the bill
+  if (to === "Billed" && !(await db.bill.count({ where: { orderId } }))) {
+    throw new InvalidStatusTransitionError(
+      "Issue the order's bill before marking it Billed"
+    );
+  }
+
+  // Split or part-paid checks are settled through their payments. Marking
+  // an order Paid in one go records its single bill as paid in full with
+  // the order's payment method.
+  if (to === "Paid") {
+    if (!(await db.bill.count({ where: { orderId } }))) {
+      throw new InvalidStatusTransitionError(
+        "Issue the order's bill before marking it Paid"
+      );
+    }
+    const open = await db.bill.findMany({ where: { orderId, status: "Open" } });
+    if (open.some((bill) => bill.splitCount > 1 || bill.amountPaid > 0)) {
+      throw new InvalidStatusTransitionError(
+        "Record the remaining payments on this order's bills"
+      );
+    }
+    if (open.length) {
+      const tender = parseTender(order.paymentMethod);
+      if (!tender) {
+        throw new InvalidStatusTransitionError(
+          `Record the bill's payment; "${order.paymentMethod}" is not a tender`
+        );
+      }
+      await recordPayment(db, open[0].id, { tender }, actor.id ?? null);
+    }
+  }
+
+  const { count } = await db.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data: { status: to },
+  });
+  if (count === 0) {
+    throw new InvalidStatusTransitionError(
+      "Order status changed by someone else, please retry"
+    );
+  }
+
+  await db.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: actor.type,
+      actorId: actor.id,
+      note: detail.note,
+      reasonCode: detail.reasonCode,
+    },
+  });
+
+  // A cancelled or rejected pre-order frees its place in the slot
+  if ((to === "Cancelled" || to === "Rejected") && order.scheduledFor) {
+    await releaseSlot(db, order.businessId, order.scheduledFor);
+  }
+
+  return to;
+}
+
+// Walks the happy path up to `target`, recording every hop
+export async function advanceOrder(
+  db: PrismaLike,
+  orderId: number,
+  target: OrderStatus,
+  actor: StatusActor
+): Promise<OrderStatus> {
+  const order = await db.order.findUniqueOrThrow({ where: { id: orderId } });
+  let status = currentOrderStatus(order.status);
+
+  const targetIndex = ORDER_FLOW.indexOf(target);
+  if (targetIndex === -1) {
+    throw new InvalidStatusTransitionError(`Cannot advance order to ${target}`);
+  }
+
+  while (ORDER_FLOW.indexOf(status) < targetIndex) {
+    const index = ORDER_FLOW.indexOf(status);
+    if (index === -1) {
+      throw new InvalidStatusTransitionError(
+        `Cannot move order from ${status} to ${target}`
+      );
+    }
+    status = await transitionOrder(db, orderId, ORDER_FLOW[index + 1], actor);
+  }
+
+  return status;
+}
+
+// Updates the given order items, then lets the order catch up with them
+export async function transitionItems(
+  db: PrismaLike,
+  orderId: number,
+  itemIds: number[],
+  to: ItemStatus,
+  actor: StatusActor,
+  detail: TransitionDetail = {}
+) {
+  const items = await db.orderItem.findMany({
+    where: { orderId, id: { in: itemIds } },
+  });
+
+  for (const item of items) {
+    const from = currentItemStatus(item.status);
+    if (from === to) continue;
+
+    if (!canTransitionItem(from, to)) {
+      throw new InvalidStatusTransitionError(
+        `Cannot move ${item.name} from ${from} to ${to}`
+      );
+    }
+
+    await db.orderItem.update({
+      where: { id: item.id },
+      data: { status: to },
+    });
+    await db.orderStatusHistory.create({
+      data: {
+        orderId,
+        orderItemId: item.id,
+        fromStatus: from,
+        toStatus: to,
+        actorType: actor.type,
+        actorId: actor.id,
+        note: detail.note,
+        reasonCode: detail.reasonCode,
+      },
+    });
+  }
+
+  return syncOrderWithItems(db, orderId, actor);
+}
+
+const ITEM_TO_ORDER: Record<ItemStatus, OrderStatus | null> = {
+  Pending: null,
+  Preparing: "Preparing",
+  Ready: "Ready",
+  Served: "Served",
+  Cancelled: null,
+};
+
+// The order is as far along as its least advanced live item. Once served,
+// an order that was billed in the kitchen goes on to Billed, or to Paid if
+// its bills are already settled, so the check and the table close.
+export async function syncOrderWithItems(
+  db: PrismaLike,
+  orderId: number,
+  actor: StatusActor
+): Promise<OrderStatus> {
+  const order = await db.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { items: true },
+  });
+  const status = currentOrderStatus(order.status);
+
+  const liveItems = order.items
+    .map((item) => currentItemStatus(item.status))
+    .filter((itemStatus) => itemStatus !== "Cancelled");
+  if (liveItems.length === 0) return status;
+
+  const slowest = liveItems.reduce((min, itemStatus) =>
+    ITEM_STATUSES.indexOf(itemStatus) < ITEM_STATUSES.indexOf(min)
+      ? itemStatus
+      : min
+  );
+  const target = ITEM_TO_ORDER[slowest];
+
+  if (
+    !target ||
+    CLOSED_ORDER_STATUSES.includes(status) ||
+    ORDER_FLOW.indexOf(status) >= ORDER_FLOW.indexOf(target)
+  ) {
+    return status;
+  }
+
+  if (target === "Served") {
+    const bills = await db.bill.findMany({ where: { orderId } });
+    if (bills.length) {
+      const settled = bills.every((bill) => bill.status === "Paid");
+      return advanceOrder(db, orderId, settled ? "Paid" : "Billed", actor);
+    }
+  }
+
+  return advanceOrder(db, orderId, target, actor);
+}
@@ -0,0 +1,109 @@
+// src/utils/orderTracking.ts
+
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import {
+  CLOSED_ORDER_STATUSES,
+  FULFILLED_ORDER_STATUSES,
+  parseOrderStatus,
+} from "./orderStatus";
+import { orderRefFields } from "./orderRefs";
+
+// Separate from JWT_SECRET so a leaked tracking link can't be turned into a login
+const trackingSecret = () =>
+  process.env.TRACKING_SECRET || process.env.JWT_SECRET || "your-secret-key";
+
+const sign = (payload: string) =>
+  crypto
+    .createHmac("sha256", trackingSecret())
+    .update(`order-tracking:${payload}`)
+    .digest("base64url");
+
+// Opaque to the guest; only this server can mint one for a given order
+export function createTrackingToken(orderId: number, businessId: number) {
+  const payload = Buffer.from(`${orderId}:${businessId}`).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the order the token was issued for, or null if it was tampered with
+export function verifyTrackingToken(
+  token: unknown
+): { orderId: number; businessId: number } | null {
+  if (typeof token !== "string") return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  const [orderId, businessId] = Buffer.from(payload, "base64url")
+    .toString()
+    .split(":")
+    .map(Number);
+  if (!orderId || !businessId) return null;
+  return { orderId, businessId };
+}
+
+type TrackedOrder = Prisma.OrderGetPayload<{
+  include: { items: true; statusHistory: true };
+}>;
+
+// Best guess at when the food will be ready; null once it has been served
+function estimateReadyAt(order: TrackedOrder): Date | null {
+  const status = parseOrderStatus(order.status);
+  if (
+    !status ||
+    FULFILLED_ORDER_STATUSES.includes(status) ||
+    CLOSED_ORDER_STATUSES.includes(status)
+  ) {
+    return null;
+  }
+  if (order.scheduledFor) return order.scheduledFor;
+
+  // estimatedTime is free text such as "20 mins"
+  const minutes = parseInt(order.estimatedTime ?? "", 10);
+  return isNaN(minutes)
+    ? null
+    : new Date(order.createdAt.getTime() + minutes * 60 * 1000);
+}
+
+// What a guest may see: no staff ids, internal notes or station routing
+export const trackingView = (order: TrackedOrder) => ({
+  ...orderRefFields(order),
+  order_type: order.orderType,
+  table_number: order.tableNumber,
+  status: parseOrderStatus(order.status) ?? order.status,
+  scheduled_for: order.scheduledFor,
+  estimated_time: order.estimatedTime,
+  estimated_ready_at: estimateReadyAt(order),
+  created_at: order.createdAt,
+  total_amount: order.totalAmount,
+  payment_method: order.paymentMethod,
+  timeline: order.statusHistory
+    .filter(
+      (entry) =>
+        entry.orderItemId === null && entry.fromStatus !== entry.toStatus
+    )
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map((entry) => ({
+      status: parseOrderStatus(entry.toStatus) ?? entry.toStatus,
+      at: entry.createdAt,
+    })),
+  items: order.items.map((item) => ({
+    id: item.id,
+    name: item.name,
+    variant: item.variantName,
+    quantity: item.quantity,
+    price: item.price,
+    modifiers: item.modifiers ?? [],
+    note: item.note,
+    status: item.status,
+  })),
+});
@@ -0,0 +1,48 @@
+// src/utils/orderTypes.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export const ORDER_TYPES = [
+  "dine-in",
+  "takeaway",
+  "delivery",
+  "online-pickup",
+] as const;
+export type OrderType = (typeof ORDER_TYPES)[number];
+
+export interface OrderTypeCharges {
+  isEnabled: boolean;
+  packagingCharge: number;
+  deliveryFee: number;
+}
+
+// Orders sent before order types existed are dine-in.
+// Accepts "dine_in", "Dine In", "DINE-IN", ...
+export function parseOrderType(value: unknown): OrderType | null {
+  if (value === undefined || value === null || value === "") return "dine-in";
+  const normalised = String(value)
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-");
+  return ORDER_TYPES.find((type) => type === normalised) ?? null;
+}
+
+// Businesses that never configured a type get it enabled with no charges
+export async function getOrderTypeCharges(
+  db: PrismaLike,
+  businessId: number,
+  orderType: OrderType
+): Promise<OrderTypeCharges> {
+  const setting = await db.orderTypeSetting.findUnique({
+    where: { businessId_orderType: { businessId, orderType } },
+  });
+
+  return {
+    isEnabled: setting?.isEnabled ?? true,
+    packagingCharge: setting?.packagingCharge ?? 0,
+    // Only delivery orders travel
+    deliveryFee: orderType === "delivery" ? (setting?.deliveryFee ?? 0) : 0,
+  };
+}
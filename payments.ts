@@ -0,0 +1,233 @@
+// src/utils/payments.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { computeCouponDiscount, POINT_VALUE, roundMoney } from "./orderPricing";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export const TENDERS = [
+  "cash",
+  "upi",
+  "card",
+  "wallet",
+  "points",
+  "coupon",
+] as const;
+export type Tender = (typeof TENDERS)[number];
+
+// Thrown for payments the caller can fix
+export class PaymentError extends Error {}
+
+export function parseTender(value: unknown): Tender | null {
+  const tender = String(value ?? "")
+    .trim()
+    .toLowerCase();
+  return TENDERS.find((t) => t === tender) ?? null;
+}
+
+export interface PaymentInput {
+  tender: unknown;
+  amount?: unknown; // defaults to the outstanding balance
+  tendered?: unknown; // cash handed over; change is worked out from it
+  tip?: unknown;
+  reference?: unknown;
+  points?: unknown; // for the points tender
+  coupon_code?: unknown; // for the coupon tender
+}
+
+function parseMoney(value: unknown, label: string): number {
+  const amount = roundMoney(Number(value));
+  if (isNaN(amount) || amount < 0) {
+    throw new PaymentError(`${label} must be a positive amount`);
+  }
+  return amount;
+}
+
+export const billBalance = (bill: { grandTotal: number; amountPaid: number }) =>
+  roundMoney(bill.grandTotal - bill.amountPaid);
+
+// Records one payment against a bill. A bill can be paid in parts and in
+// different tenders; it becomes Paid when its balance reaches zero. Cash
+// may be more than what's owed (the rest is change); other tenders can't
+// go over the balance. Points and coupons are spent here, guarded so two
+// terminals can't use the same ones.
+export async function recordPayment(
+  db: PrismaLike,
+  billId: number,
+  input: PaymentInput,
+  receivedBy: number | null
+) {
+  const bill = await db.bill.findUniqueOrThrow({
+    where: { id: billId },
+    include: { order: true },
+  });
+  if (bill.status !== "Open") {
+    throw new PaymentError("This bill has already been paid");
+  }
+
+  const tender = parseTender(input.tender);
+  if (!tender) {
+    throw new PaymentError(`tender must be one of ${TENDERS.join(", ")}`);
+  }
+
+  const balance = billBalance(bill);
+  const tip =
+    input.tip !== undefined && input.tip !== null
+      ? parseMoney(input.tip, "tip")
+      : 0;
+  let amount =
+    input.amount !== undefined && input.amount !== null
+      ? parseMoney(input.amount, "amount")
+      : balance;
+  let reference = input.reference ? String(input.reference).trim() : null;
+  let tendered: number | null = null;
+  let changeDue = 0;
+  let points: number | null = null;
+
+  if ((tender === "points" || tender === "coupon") && tip > 0) {
+    throw new PaymentError(`Tips can't be paid with ${tender}`);
+  }
+
+  if (tender === "cash") {
+    if (input.tendered !== undefined && input.tendered !== null) {
+      tendered = parseMoney(input.tendered, "tendered");
+      if (input.amount === undefined || input.amount === null) {
+        amount = Math.min(balance, roundMoney(tendered - tip));
+      }
+    } else {
+      tendered = roundMoney(amount + tip);
+    }
+    changeDue = roundMoney(tendered - amount - tip);
+    if (changeDue < 0) {
+      throw new PaymentError("Cash tendered is less than the amount and tip");
+    }
+  } else if (tender === "points") {
+    if (!bill.order.customerId) {
+      throw new PaymentError("Only a registered customer can pay with points");
+    }
+    points = Math.floor(Number(input.points));
+    if (!(points > 0)) {
+      throw new PaymentError("points must be a whole number above 0");
+    }
+    amount = roundMoney(points * POINT_VALUE);
+    if (amount > balance) {
+      throw new PaymentError(
+        `${points} points are worth more than the balance of ${balance}`
+      );
+    }
+    const { count } = await db.customer.updateMany({
+      where: { id: bill.order.customerId, points: { gte: points } },
+      data: { points: { decrement: points } },
+    });
+    if (count === 0) throw new PaymentError("Not enough loyalty points");
+  } else if (tender === "coupon") {
+    const code = String(input.coupon_code ?? reference ?? "").toUpperCase();
+    const now = new Date();
+    const coupon = code
+      ? await db.coupon.findFirst({
+          where: {
+            code,
+            businessId: bill.businessId,
+            validFrom: { lte: now },
+            validTill: { gte: now },
+          },
+        })
+      : null;
+    if (!coupon) throw new PaymentError("Coupon not found or expired");
+    if (bill.grandTotal < coupon.minOrderValue) {
+      throw new PaymentError(
+        `Minimum bill value must be ₹${coupon.minOrderValue}`
+      );
+    }
+    amount = roundMoney(computeCouponDiscount(coupon, balance));
+    const { count } = await db.coupon.updateMany({
+      where: { id: coupon.id, usedCount: { lt: coupon.usageLimit } },
+      data: { usedCount: { increment: 1 } },
+    });
+    if (count === 0) throw new PaymentError("Coupon usage limit reached");
+    reference = coupon.code;
+  }
+
+  if (amount <= 0) throw new PaymentError("Nothing to pay on this bill");
+  if (amount > balance) {
+    throw new PaymentError(
+      `${amount} is more than the outstanding balance of ${balance}`
+    );
+  }
+
+  // Guarded on the balance read above, so concurrent payments can't
+  // overpay the bill
+  const { count } = await db.bill.updateMany({
+    where: { id: billId, status: "Open", amountPaid: bill.amountPaid },
+    data: {
+      amountPaid: { increment: amount },
+      tipAmount: { increment: tip },
+    },
+  });
+  if (count === 0) {
+    throw new PaymentError("The bill was paid from elsewhere, please retry");
+  }
+
+  const payment = await db.payment.create({
+    data: {
+      billId,
+      businessId: bill.businessId,
+      tender,
+      amount,
+      tendered,
+      changeDue,
+      tip,
+      reference,
+      points,
+      receivedBy,
+    },
+  });
+
+  const remaining = roundMoney(balance - amount);
+  let updated = await db.bill.findUniqueOrThrow({ where: { id: billId } });
+  if (remaining <= 0) {
+    const tenders = await db.payment.findMany({
+      where: { billId },
+      distinct: ["tender"],
+      select: { tender: true },
+    });
+    updated = await db.bill.update({
+      where: { id: billId },
+      data: {
+        status: "Paid",
+        paidAt: new Date(),
+        paymentMethod: tenders.length === 1 ? tenders[0].tender : "mixed",
+      },
+    });
+  }
+
+  return {
+    payment,
+    bill: updated,
+    balance: remaining,
+    billPaid: remaining <= 0,
+  };
+}
+
+// Ledger view of a bill for the billing screen
+export const paymentView = (payment: {
+  id: number;
+  tender: string;
+  amount: number;
+  tendered: number | null;
+  changeDue: number;
+  tip: number;
+  reference: string | null;
+  points: number | null;
+  createdAt: Date;
+}) => ({
+  id: payment.id,
+  tender: payment.tender,
+  amount: payment.amount,
+  tendered: payment.tendered,
+  change_due: payment.changeDue,
+  tip: payment.tip,
+  reference: payment.reference,
+  points: payment.points,
+  created_at: payment.createdAt,
+});
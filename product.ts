@@ -3,6 +3,12 @@ import { Router, Request, Response } from "express";
 import { PrismaClient, Prisma } from "@prisma/client";
 import { authenticateBusinessOwnerJWT } from "../middleware/authenticateJWT";
 import { BusinessOwnerRequest } from "../middleware/authenticateJWT";
+import {
+  parseVariants,
+  ProductVariantError,
+  saveVariants,
+} from "../utils/productVariants";
+import { parseTaxClassId, TaxError } from "../utils/taxEngine";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -14,11 +20,20 @@ router.post(
   upload.array("images", 10),
   async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
     try {
-      const { name, description, price, productType, category, metadata } =
-        req.body;
+      const {
+        name,
+        description,
+        price,
+        productType,
+        category,
+        metadata,
+        variants,
+        taxClassId,
+      } = req.body;
 
       const businessId = req.businessOwner?.businessId; // ✅ Get businessId from logged-in user
-      if (!name || !price || !businessId) {
+      const variantList = parseVariants(variants) ?? [];
+      if (!name || (!price && variantList.length === 0) || !businessId) {
         res.status(400).json({ error: "Missing required fields" });
         return;
       }
@@ -47,21 +62,33 @@ router.post(
         images: imageUrls,
       };
 
-      const product = await prisma.product.create({
-        data: {
-          name,
-          description,
-          price: Number(price),
-          businessId, // ✅ Use businessId from req.businessOwner
-          productType: productType || "generic",
-          category: category || null,
-          metadata: finalMetadata,
-          isActive: true,
-        },
+      const product = await prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            name,
+            description,
+            price: Number(price ?? variantList[0].price),
+            businessId, // ✅ Use businessId from req.businessOwner
+            productType: productType || "generic",
+            category: category || null,
+            taxClassId: await parseTaxClassId(tx, businessId, taxClassId),
+            metadata: finalMetadata,
+            isActive: true,
+          },
+        });
+        await saveVariants(tx, created.id, variantList);
+        return tx.product.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { variants: true },
+        });
       });
 
       res.status(201).json(product);
     } catch (error) {
+      if (error instanceof ProductVariantError || error instanceof TaxError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error("Create product error:", error);
       res.status(500).json({ error: "Failed to create product" });
     }
@@ -83,6 +110,16 @@ router.get(
 
       const products = await prisma.product.findMany({
         where: { businessId: Number(queryBusinessId) },
+        include: {
+          variants: {
+            where: { isActive: true },
+            orderBy: { sortOrder: "asc" },
+          },
+          modifierGroups: {
+            include: { options: { where: { isActive: true } } },
+            orderBy: { sortOrder: "asc" },
+          },
+        },
       });
 
       res.json(products);
@@ -104,7 +141,10 @@ router.get(
 
       const product = await prisma.product.findFirst({
         where: { id, businessId },
-        include: { business: true },
+        include: {
+          business: true,
+          variants: { orderBy: { sortOrder: "asc" } },
+        },
       });
 
       if (!product) {
@@ -138,6 +178,8 @@ router.put(
         category,
         metadata,
         isActive,
+        variants,
+        taxClassId,
       } = req.body;
 
       let parsedMetadata: any = {};
@@ -198,13 +240,31 @@ router.put(
         if (updateData[key] === undefined) delete updateData[key];
       });
 
-      const updatedProduct = await prisma.product.update({
-        where: { id },
-        data: updateData,
+      const variantList = parseVariants(variants);
+
+      const updatedProduct = await prisma.$transaction(async (tx) => {
+        await tx.product.update({
+          where: { id },
+          data: {
+            ...updateData,
+            taxClassId: await parseTaxClassId(tx, businessId!, taxClassId),
+          },
+        });
+        if (variantList) {
+          await saveVariants(tx, id, variantList);
+        }
+        return tx.product.findUniqueOrThrow({
+          where: { id },
+          include: { variants: true },
+        });
       });
 
       res.json(updatedProduct);
     } catch (error) {
+      if (error instanceof ProductVariantError || error instanceof TaxError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error("Update product error:", error);
       res.status(500).json({ error: "Failed to update product" });
     }
@@ -264,4 +324,157 @@ router.delete(
   }
 );
 
+interface ModifierGroupBody {
+  name?: string;
+  required?: boolean;
+  minSelect?: number;
+  maxSelect?: number;
+  sortOrder?: number;
+  options?: { name: string; priceDelta?: number; isActive?: boolean }[];
+}
+
+// Returns an error message, or null when the group rules make sense
+const validateModifierGroup = (body: ModifierGroupBody): string | null => {
+  const minSelect = Number(body.minSelect ?? 0);
+  const maxSelect = Number(body.maxSelect ?? 1);
+
+  if (!body.name) return "Modifier group name is required";
+  if (!Array.isArray(body.options) || body.options.length === 0) {
+    return "At least one option is required";
+  }
+  if (body.options.some((o) => !o.name || isNaN(Number(o.priceDelta ?? 0)))) {
+    return "Every option needs a name and a numeric priceDelta";
+  }
+  if (minSelect < 0 || maxSelect < 1 || minSelect > maxSelect) {
+    return "minSelect/maxSelect are invalid";
+  }
+  if (maxSelect > body.options.length) {
+    return "maxSelect cannot exceed the number of options";
+  }
+  return null;
+};
+
+const modifierGroupData = (body: ModifierGroupBody) => ({
+  name: body.name!,
+  required: Boolean(body.required),
+  minSelect: Number(body.minSelect ?? 0),
+  maxSelect: Number(body.maxSelect ?? 1),
+  sortOrder: Number(body.sortOrder ?? 0),
+  options: {
+    create: body.options!.map((o) => ({
+      name: o.name,
+      priceDelta: Number(o.priceDelta ?? 0),
+      isActive: o.isActive !== false,
+    })),
+  },
+});
+
+// ✅ Add a modifier group (e.g. "Add-ons") with its options to a product
+router.post(
+  "/:id/modifier-groups",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const productId = Number(req.params.id);
+      const businessId = req.businessOwner?.businessId;
+      const body = req.body as ModifierGroupBody;
+
+      const product = await prisma.product.findFirst({
+        where: { id: productId, businessId },
+      });
+
+      if (!product) {
+        res.status(404).json({ error: "Product not found or not authorized" });
+        return;
+      }
+
+      const validationError = validateModifierGroup(body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const group = await prisma.modifierGroup.create({
+        data: { productId, ...modifierGroupData(body) },
+        include: { options: true },
+      });
+
+      res.status(201).json(group);
+    } catch (error) {
+      console.error("Create modifier group error:", error);
+      res.status(500).json({ error: "Failed to create modifier group" });
+    }
+  }
+);
+
+// ✅ Replace a modifier group's rules and options
+router.put(
+  "/modifier-groups/:groupId",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const groupId = Number(req.params.groupId);
+      const businessId = req.businessOwner?.businessId;
+      const body = req.body as ModifierGroupBody;
+
+      const group = await prisma.modifierGroup.findFirst({
+        where: { id: groupId, product: { businessId } },
+      });
+
+      if (!group) {
+        res.status(404).json({ error: "Modifier group not found" });
+        return;
+      }
+
+      const validationError = validateModifierGroup(body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      // Past orders keep their own snapshot, so options can be recreated
+      const updated = await prisma.$transaction(async (tx) => {
+        await tx.modifierOption.deleteMany({ where: { groupId } });
+        return tx.modifierGroup.update({
+          where: { id: groupId },
+          data: modifierGroupData(body),
+          include: { options: true },
+        });
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Update modifier group error:", error);
+      res.status(500).json({ error: "Failed to update modifier group" });
+    }
+  }
+);
+
+// ✅ Remove a modifier group
+router.delete(
+  "/modifier-groups/:groupId",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const groupId = Number(req.params.groupId);
+      const businessId = req.businessOwner?.businessId;
+
+      const group = await prisma.modifierGroup.findFirst({
+        where: { id: groupId, product: { businessId } },
+      });
+
+      if (!group) {
+        res.status(404).json({ error: "Modifier group not found" });
+        return;
+      }
+
+      await prisma.modifierGroup.delete({ where: { id: groupId } });
+      res.json({ message: "Modifier group deleted" });
+    } catch (error) {
+      console.error("Delete modifier group error:", error);
+      res.status(500).json({ error: "Failed to delete modifier group" });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,122 @@
+// src/utils/productVariants.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export interface VariantInput {
+  name: string;
+  price: number;
+  ingredients?: Prisma.InputJsonValue | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+export class ProductVariantError extends Error {}
+
+// Multipart forms send variants as a JSON string, JSON bodies as an array.
+// Returns undefined when the request did not mention variants at all.
+export function parseVariants(raw: unknown): VariantInput[] | undefined {
+  if (raw === undefined || raw === null || raw === "") return undefined;
+
+  let list: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      list = JSON.parse(raw);
+    } catch (e) {
+      throw new ProductVariantError("variants must be valid JSON");
+    }
+  }
+  if (!Array.isArray(list)) {
+    throw new ProductVariantError("variants must be an array");
+  }
+
+  const variants = list.map((v: any) => {
+    const name = String(v?.name ?? "").trim();
+    const price = Number(v?.price);
+    if (!name || isNaN(price) || price < 0) {
+      throw new ProductVariantError(
+        "Every variant needs a name and a non-negative price"
+      );
+    }
+    let ingredients = v.ingredients;
+    if (typeof ingredients === "string") {
+      try {
+        ingredients = JSON.parse(ingredients);
+      } catch (e) {
+        throw new ProductVariantError(`Invalid ingredients for ${name}`);
+      }
+    }
+    return {
+      name,
+      price,
+      ingredients: Array.isArray(ingredients) ? ingredients : null,
+      isDefault: Boolean(v.isDefault),
+      isActive: v.isActive !== false,
+      sortOrder: Number(v.sortOrder ?? 0),
+    };
+  });
+
+  const names = variants.map((v) => v.name.toLowerCase());
+  if (new Set(names).size !== names.length) {
+    throw new ProductVariantError("Variant names must be unique");
+  }
+  return variants;
+}
+
+// The old food form sent fullPrice/halfPrice; map those onto variants
+export function portionVariants(
+  fullPrice: number,
+  halfPrice?: number | null
+): VariantInput[] {
+  if (halfPrice === undefined || halfPrice === null || isNaN(halfPrice)) {
+    return [];
+  }
+  return [
+    { name: "Full", price: fullPrice, isDefault: true, sortOrder: 1 },
+    { name: "Half", price: halfPrice, sortOrder: 0 },
+  ];
+}
+
+// Upserts by name. Variants missing from the list are deactivated rather
+// than deleted so past order items keep pointing at them.
+export async function saveVariants(
+  db: PrismaLike,
+  productId: number,
+  variants: VariantInput[]
+) {
+  const activeDefault = variants.find((v) => v.isDefault && v.isActive);
+  const defaultName = (
+    activeDefault ?? variants.find((v) => v.isActive !== false)
+  )?.name;
+
+  await db.productVariant.updateMany({
+    where: { productId, name: { notIn: variants.map((v) => v.name) } },
+    data: { isActive: false, isDefault: false },
+  });
+
+  for (const variant of variants) {
+    const data = {
+      price: variant.price,
+      ingredients: variant.ingredients ?? Prisma.DbNull,
+      isDefault: variant.name === defaultName,
+      isActive: variant.isActive !== false,
+      sortOrder: variant.sortOrder ?? 0,
+    };
+    await db.productVariant.upsert({
+      where: { productId_name: { productId, name: variant.name } },
+      create: { productId, name: variant.name, ...data },
+      update: data,
+    });
+  }
+
+  // Product.price mirrors the default variant for menus that ignore variants
+  const defaultVariant = variants.find((v) => v.name === defaultName);
+  if (defaultVariant) {
+    await db.product.update({
+      where: { id: productId },
+      data: { price: defaultVariant.price },
+    });
+  }
+}
@@ -0,0 +1,305 @@
+// src/utils/refunds.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { allocatePaise } from "./bills";
+import { adjustInventory } from "./inventoryUsage";
+import { nextInvoiceNumber } from "./invoiceNumbers";
+import { POINT_VALUE, roundMoney } from "./orderPricing";
+import { adjustCustomer, parseReason } from "./orderReversal";
+import { parseTender, TENDERS } from "./payments";
+import { TaxedLine } from "./taxEngine";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Thrown for refunds the caller can fix
+export class RefundError extends Error {}
+
+export const REFUND_TYPES = ["full", "items", "amount"] as const;
+export type RefundType = (typeof REFUND_TYPES)[number];
+
+export interface RefundInput {
+  type: unknown;
+  items?: { itemId: unknown; quantity?: unknown }[]; // for "items"
+  amount?: unknown; // for "amount", tax included
+  tender?: unknown; // defaults to how the bill was paid
+  reference?: unknown;
+  restock?: unknown;
+  reverse_points?: unknown;
+  reasonCode: unknown;
+  note?: unknown;
+}
+
+const MONEY_FIELDS = [
+  "gross",
+  "discount",
+  "serviceCharge",
+  "taxableValue",
+  "cgst",
+  "sgst",
+  "igst",
+  "total",
+] as const;
+
+// Charge lines have no item id, so they are matched by name
+const lineKey = (line: TaxedLine) =>
+  line.orderItemId !== null
+    ? `item:${line.orderItemId}`
+    : `charge:${line.name}`;
+
+const sumLines = (lines: TaxedLine[]) =>
+  roundMoney(lines.reduce((total, line) => total + line.total, 0));
+
+// What is still uncredited on each invoice line after earlier credit notes
+function remainingLines(
+  lines: TaxedLine[],
+  earlier: TaxedLine[][]
+): TaxedLine[] {
+  return lines.map((line) => {
+    const credited = earlier.flat().filter((c) => lineKey(c) === lineKey(line));
+    const remaining = { ...line };
+    remaining.quantity = roundMoney(
+      line.quantity - credited.reduce((total, c) => total + c.quantity, 0)
+    );
+    for (const field of MONEY_FIELDS) {
+      remaining[field] = roundMoney(
+        line[field] - credited.reduce((total, c) => total + c[field], 0)
+      );
+    }
+    return remaining;
+  });
+}
+
+// Credits part of a line. Crediting everything left takes the exact
+// remainder, so repeated partial refunds never lose paise to rounding.
+function creditQuantity(line: TaxedLine, quantity: number): TaxedLine {
+  if (quantity >= line.quantity) return line;
+  const share = quantity / line.quantity;
+  const credited = { ...line, quantity };
+  for (const field of MONEY_FIELDS) {
+    credited[field] = roundMoney(line[field] * share);
+  }
+  credited.total = roundMoney(
+    credited.taxableValue + credited.cgst + credited.sgst + credited.igst
+  );
+  return credited;
+}
+
+// Spreads a tax-inclusive amount over the lines in proportion to what is
+// left on them, then works each share back into taxable value and GST
+function creditAmount(
+  lines: TaxedLine[],
+  amount: number,
+  interState: boolean
+): TaxedLine[] {
+  const shares = allocatePaise(
+    amount,
+    lines.map((line) => Math.max(0, Math.round(line.total * 100)))
+  );
+  return lines
+    .map((line, i): TaxedLine => {
+      const total = shares[i];
+      const taxableValue = roundMoney(total / (1 + line.rate / 100));
+      const tax = roundMoney(total - taxableValue);
+      const cgst = interState ? 0 : roundMoney(tax / 2);
+      return {
+        ...line,
+        quantity: 0,
+        gross: taxableValue,
+        discount: 0,
+        serviceCharge: 0,
+        taxableValue,
+        cgst,
+        sgst: interState ? 0 : roundMoney(tax - cgst),
+        igst: interState ? tax : 0,
+        total,
+      };
+    })
+    .filter((line) => line.total > 0);
+}
+
+// Refunds all or part of a paid bill and issues a credit note for it in the
+// business's credit-note series. Call inside a transaction: the refund is
+// guarded on the bill's refunded total, so two refunds can't both take the
+// same money back.
+export async function refundBill(
+  db: PrismaLike,
+  billId: number,
+  input: RefundInput,
+  createdBy: number | null
+) {
+  const bill = await db.bill.findUniqueOrThrow({
+    where: { id: billId },
+    include: {
+      order: {
+        include: { items: { include: { product: true, variant: true } } },
+      },
+      creditNotes: true,
+    },
+  });
+  if (bill.status !== "Paid") {
+    throw new RefundError("Only paid bills can be refunded");
+  }
+
+  const type = REFUND_TYPES.find((t) => t === input.type);
+  if (!type) {
+    throw new RefundError(`type must be one of ${REFUND_TYPES.join(", ")}`);
+  }
+  const reason = parseReason(input.reasonCode, input.note);
+
+  const tender = parseTender(input.tender ?? bill.paymentMethod);
+  if (!tender) {
+    throw new RefundError(`tender must be one of ${TENDERS.join(", ")}`);
+  }
+  if (tender === "points" && !bill.order.customerId) {
+    throw new RefundError("Only a registered customer can be refunded points");
+  }
+
+  const refundable = roundMoney(bill.grandTotal - bill.refundedAmount);
+  if (refundable <= 0) {
+    throw new RefundError("This bill has already been refunded in full");
+  }
+
+  const remaining = remainingLines(
+    (bill.taxLines ?? []) as unknown as TaxedLine[],
+    bill.creditNotes.map((note) => note.taxLines as unknown as TaxedLine[])
+  );
+
+  let lines: TaxedLine[];
+  if (type === "full") {
+    lines = remaining.filter((line) => line.total > 0);
+  } else if (type === "items") {
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new RefundError("items must list the items to refund");
+    }
+    lines = input.items.map((entry) => {
+      const line = remaining.find(
+        (l) => l.orderItemId !== null && l.orderItemId === Number(entry.itemId)
+      );
+      if (!line) {
+        throw new RefundError(`Item ${entry.itemId} is not on this bill`);
+      }
+      const quantity =
+        entry.quantity !== undefined ? Number(entry.quantity) : line.quantity;
+      if (!(quantity > 0) || quantity > line.quantity) {
+        throw new RefundError(
+          `Only ${line.quantity} of ${line.name} can still be refunded`
+        );
+      }
+      return creditQuantity(line, quantity);
+    });
+    if (new Set(lines.map(lineKey)).size !== lines.length) {
+      throw new RefundError("Each item can only be listed once");
+    }
+  } else {
+    const amount = roundMoney(Number(input.amount));
+    if (!(amount > 0) || amount > refundable) {
+      throw new RefundError(`amount must be between 0 and ${refundable}`);
+    }
+    lines = creditAmount(remaining, amount, bill.isInterState);
+  }
+
+  // A full refund also returns the bill's round-off; anything else may only
+  // overshoot what's left by rounding, which is trimmed the same way
+  let total = sumLines(lines);
+  let roundOff = 0;
+  if (type === "full" || (total > refundable && total - refundable < 1)) {
+    roundOff = roundMoney(refundable - total);
+    total = refundable;
+  }
+  if (total <= 0 || total > refundable) {
+    throw new RefundError(`At most ${refundable} can still be refunded`);
+  }
+
+  const { count } = await db.bill.updateMany({
+    where: { id: billId, refundedAmount: bill.refundedAmount },
+    data: { refundedAmount: { increment: total } },
+  });
+  if (count === 0) {
+    throw new RefundError("The bill was refunded from elsewhere, please retry");
+  }
+
+  const restock = input.restock === true && type !== "amount";
+  if (restock) {
+    await adjustInventory(
+      db,
+      bill.businessId,
+      lines
+        .filter((line) => line.orderItemId !== null && line.quantity > 0)
+        .map((line) => {
+          const item = bill.order.items.find((i) => i.id === line.orderItemId)!;
+          return {
+            quantity: line.quantity,
+            metadata: item.product.metadata,
+            recipe: item.variant?.ingredients,
+          };
+        }),
+      "restore"
+    );
+  }
+
+  // Points earned on the order come back no more than once overall
+  let pointsReversed = 0;
+  if (bill.order.customerId) {
+    if (input.reverse_points === true) {
+      const earlier = await db.creditNote.aggregate({
+        where: { bill: { orderId: bill.orderId } },
+        _sum: { pointsReversed: true },
+      });
+      pointsReversed = Math.max(
+        0,
+        Math.min(
+          Math.floor(total / 100),
+          bill.order.pointsEarned - (earlier._sum.pointsReversed ?? 0)
+        )
+      );
+    }
+    await adjustCustomer(db, bill.order.customerId, {
+      orders: 0,
+      spent: -total,
+      points:
+        (tender === "points" ? Math.floor(total / POINT_VALUE) : 0) -
+        pointsReversed,
+    });
+  }
+
+  const issuedAt = new Date();
+  const number = await nextInvoiceNumber(
+    db,
+    bill.businessId,
+    "credit-note",
+    issuedAt
+  );
+  const creditNote = await db.creditNote.create({
+    data: {
+      billId,
+      businessId: bill.businessId,
+      creditNoteNumber: number.invoiceNumber,
+      financialYear: number.financialYear,
+      sequence: number.sequence,
+      issuedAt,
+      type,
+      reasonCode: reason.reasonCode,
+      note: reason.note,
+      taxableValue: roundMoney(
+        lines.reduce((sum, line) => sum + line.taxableValue, 0)
+      ),
+      cgst: roundMoney(lines.reduce((sum, line) => sum + line.cgst, 0)),
+      sgst: roundMoney(lines.reduce((sum, line) => sum + line.sgst, 0)),
+      igst: roundMoney(lines.reduce((sum, line) => sum + line.igst, 0)),
+      roundOff,
+      total,
+      taxLines: lines as unknown as Prisma.InputJsonArray,
+      refundTender: tender,
+      refundReference: input.reference ? String(input.reference) : null,
+      restocked: restock,
+      pointsReversed,
+      createdBy,
+    },
+  });
+
+  return {
+    creditNote,
+    againstInvoice: bill.invoiceNumber,
+    refundable: roundMoney(refundable - total),
+  };
+}
@@ -0,0 +1,272 @@
+// src/utils/shiftReports.ts
+
+import { Prisma, PrismaClient, Shift } from "@prisma/client";
+import { roundMoney } from "./orderPricing";
+import { parseTender, Tender, TENDERS } from "./payments";
+import { TaxBreakdown } from "./taxEngine";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Thrown for shift requests the caller can fix
+export class ShiftError extends Error {}
+
+// Tenders that end up in the drawer or a settlement statement and can be
+// counted at close. Points and coupons are reported but not counted.
+const COUNTED_TENDERS: Tender[] = ["cash", "upi", "card", "wallet"];
+
+const sum = <T>(rows: T[], pick: (row: T) => number) =>
+  roundMoney(rows.reduce((total, row) => total + pick(row), 0));
+
+function parseAmount(value: unknown, label: string): number {
+  const amount = roundMoney(Number(value));
+  if (isNaN(amount) || amount < 0) {
+    throw new ShiftError(`${label} must be 0 or more`);
+  }
+  return amount;
+}
+
+// Reads { cash: 5230, card: 12000 } counted at close
+export function parseCounted(raw: unknown): Partial<Record<Tender, number>> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ShiftError("counted must give the amount counted per tender");
+  }
+  const counted: Partial<Record<Tender, number>> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const tender = parseTender(key);
+    if (!tender || !COUNTED_TENDERS.includes(tender)) {
+      throw new ShiftError(
+        `counted tenders must be among ${COUNTED_TENDERS.join(", ")}`
+      );
+    }
+    counted[tender] = parseAmount(value, `counted ${tender}`);
+  }
+  if (counted.cash === undefined) {
+    throw new ShiftError("counted must include the cash in the drawer");
+  }
+  return counted;
+}
+
+export const findOpenShift = (db: PrismaLike, businessId: number) =>
+  db.shift.findUnique({
+    where: { businessId_isOpen: { businessId, isOpen: true } },
+  });
+
+export async function openShift(
+  db: PrismaLike,
+  businessId: number,
+  openingFloat: unknown,
+  openedBy: number | null
+) {
+  if (await findOpenShift(db, businessId)) {
+    throw new ShiftError("A shift is already open; close it first");
+  }
+  return db.shift.create({
+    data: {
+      businessId,
+      openingFloat: parseAmount(openingFloat ?? 0, "openingFloat"),
+      openedBy,
+    },
+  });
+}
+
+// Everything taken, taxed, discounted, voided and refunded between the
+// shift opening and `until`, and what each tender should hold as a result.
+// The X report is this while the shift is open; the Z report is this at
+// close, with the counted amounts and the variance against them.
+export async function buildShiftReport(
+  db: PrismaLike,
+  shift: Shift,
+  until: Date,
+  counted: Partial<Record<Tender, number>> | null = null
+) {
+  const window = { gte: shift.openedAt, lte: until };
+  const businessId = shift.businessId;
+
+  const bills = await db.bill.findMany({
+    where: { businessId, issuedAt: window },
+  });
+  const payments = await db.payment.findMany({
+    where: { businessId, createdAt: window },
+  });
+  const creditNotes = await db.creditNote.findMany({
+    where: { businessId, issuedAt: window },
+  });
+  const orders = await db.order.findMany({
+    where: { businessId, createdAt: window },
+    select: { status: true },
+  });
+  const cancellations = await db.orderStatusHistory.findMany({
+    where: {
+      order: { businessId },
+      createdAt: window,
+      toStatus: "Cancelled",
+    },
+    include: { order: { select: { totalAmount: true } } },
+  });
+
+  // Taxes per rate, from the breakdown frozen on each bill
+  const rates = new Map<number, TaxBreakdown["rates"][number]>();
+  for (const bill of bills) {
+    const billRates = (bill.taxRates ?? []) as unknown as TaxBreakdown["rates"];
+    for (const rate of billRates) {
+      const total = rates.get(rate.rate) ?? {
+        rate: rate.rate,
+        taxableValue: 0,
+        cgst: 0,
+        sgst: 0,
+        igst: 0,
+      };
+      rates.set(rate.rate, {
+        rate: rate.rate,
+        taxableValue: roundMoney(total.taxableValue + rate.taxableValue),
+        cgst: roundMoney(total.cgst + rate.cgst),
+        sgst: roundMoney(total.sgst + rate.sgst),
+        igst: roundMoney(total.igst + rate.igst),
+      });
+    }
+  }
+
+  // A cancelled order also cancels its items; count those once, as the order
+  const cancelledOrders = cancellations.filter((c) => c.orderItemId === null);
+  const cancelledOrderIds = new Set(cancelledOrders.map((c) => c.orderId));
+  const itemVoids = cancellations.filter(
+    (c) => c.orderItemId !== null && !cancelledOrderIds.has(c.orderId)
+  );
+  const voidedItems = await db.orderItem.findMany({
+    where: { id: { in: itemVoids.map((c) => c.orderItemId!) } },
+  });
+
+  const tenders = TENDERS.map((tender) => {
+    const taken = payments.filter((p) => p.tender === tender);
+    const refunded = creditNotes.filter((c) => c.refundTender === tender);
+    return {
+      tender,
+      payments: taken.length,
+      amount: sum(taken, (p) => p.amount),
+      tips: sum(taken, (p) => p.tip),
+      change_given: sum(taken, (p) => p.changeDue),
+      refunds: sum(refunded, (c) => c.total),
+    };
+  }).filter((t) => t.payments > 0 || t.refunds > 0);
+
+  // Cash in the drawer is the float plus what was kept (change already
+  // handed back) less cash refunds; other tenders are what was taken less
+  // what was refunded to them
+  const expected: Partial<Record<Tender, number>> = {};
+  for (const tender of COUNTED_TENDERS) {
+    const row = tenders.find((t) => t.tender === tender);
+    const net = row ? roundMoney(row.amount + row.tips - row.refunds) : 0;
+    expected[tender] =
+      tender === "cash" ? roundMoney(shift.openingFloat + net) : net;
+  }
+
+  let variance = null;
+  if (counted) {
+    const byTender = COUNTED_TENDERS.filter(
+      (t) => counted[t] !== undefined
+    ).map((tender) => ({
+      tender,
+      expected: expected[tender]!,
+      counted: counted[tender]!,
+      over_short: roundMoney(counted[tender]! - expected[tender]!),
+    }));
+    variance = {
+      tenders: byTender,
+      total: sum(byTender, (t) => t.over_short),
+    };
+  }
+
+  const salesTotal = sum(bills, (b) => b.grandTotal);
+  const refundTotal = sum(creditNotes, (c) => c.total);
+
+  return {
+    shift_id: shift.id,
+    opened_at: shift.openedAt,
+    until,
+    opening_float: shift.openingFloat,
+    sales: {
+      bills: bills.length,
+      gross: sum(bills, (b) => b.subtotal),
+      discounts: sum(bills, (b) => b.discount),
+      service_charge: sum(bills, (b) => b.serviceCharge ?? 0),
+      taxable_value: sum(bills, (b) => b.taxableValue),
+      round_off: sum(bills, (b) => b.roundOff),
+      total: salesTotal,
+    },
+    taxes: {
+      cgst: sum(bills, (b) => b.cgst),
+      sgst: sum(bills, (b) => b.sgst),
+      igst: sum(bills, (b) => b.igst),
+      by_rate: [...rates.values()].sort((a, b) => a.rate - b.rate),
+    },
+    refunds: {
+      credit_notes: creditNotes.length,
+      taxable_value: sum(creditNotes, (c) => c.taxableValue),
+      cgst: sum(creditNotes, (c) => c.cgst),
+      sgst: sum(creditNotes, (c) => c.sgst),
+      igst: sum(creditNotes, (c) => c.igst),
+      total: refundTotal,
+    },
+    net_sales: roundMoney(salesTotal - refundTotal),
+    voids: {
+      orders: cancelledOrders.length,
+      orders_value: sum(cancelledOrders, (c) => c.order.totalAmount ?? 0),
+      items: itemVoids.length,
+      items_value: sum(voidedItems, (i) => i.price * i.quantity),
+    },
+    orders: {
+      placed: orders.length,
+      by_status: orders.reduce<Record<string, number>>((counts, order) => {
+        counts[order.status] = (counts[order.status] ?? 0) + 1;
+        return counts;
+      }, {}),
+    },
+    tenders,
+    tips: sum(payments, (p) => p.tip),
+    expected,
+    counted,
+    variance,
+  };
+}
+
+// Closes the open shift and freezes its Z report. The guarded update means
+// a shift can only be closed once, so its report never changes.
+export async function closeShift(
+  db: PrismaLike,
+  businessId: number,
+  countedRaw: unknown,
+  note: unknown,
+  closedBy: number | null
+) {
+  const shift = await findOpenShift(db, businessId);
+  if (!shift) throw new ShiftError("There is no open shift to close");
+
+  const counted = parseCounted(countedRaw);
+  const closedAt = new Date();
+  const report = await buildShiftReport(db, shift, closedAt, counted);
+
+  const last = await db.shift.aggregate({
+    where: { businessId },
+    _max: { zNumber: true },
+  });
+  const zNumber = (last._max.zNumber ?? 0) + 1;
+
+  const { count } = await db.shift.updateMany({
+    where: { id: shift.id, isOpen: true },
+    data: {
+      isOpen: null,
+      zNumber,
+      closedAt,
+      closedBy,
+      countedCash: counted as Prisma.InputJsonObject,
+      note: note ? String(note) : null,
+      zReport: {
+        z_number: zNumber,
+        ...report,
+      } as unknown as Prisma.InputJsonObject,
+    },
+  });
+  if (count === 0) throw new ShiftError("This shift has already been closed");
+
+  return db.shift.findUniqueOrThrow({ where: { id: shift.id } });
+}
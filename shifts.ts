@@ -0,0 +1,215 @@
+import { Router, Response } from "express";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  authenticateBusinessOwnerJWT,
+  BusinessOwnerRequest,
+} from "../middleware/authenticateJWT";
+import { authorizeRoles } from "../middleware/authorizeRoles";
+import {
+  buildShiftReport,
+  closeShift,
+  findOpenShift,
+  openShift,
+  ShiftError,
+} from "../utils/shiftReports";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Two terminals opening or closing at once trip the per-business unique keys
+const isConflict = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+// ✅ POST: Open a shift with the cash float in the drawer
+// Body: { openingFloat: 2000 }
+router.post(
+  "/open",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const shift = await openShift(
+        prisma,
+        businessId,
+        req.body.openingFloat,
+        req.businessOwner?.userId ?? null
+      );
+
+      res.status(201).json(shift);
+    } catch (error) {
+      if (error instanceof ShiftError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (isConflict(error)) {
+        res.status(409).json({ error: "A shift is already open" });
+        return;
+      }
+      console.error("Error opening shift:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ GET: The open shift, if any
+router.get(
+  "/current",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const shift = await findOpenShift(prisma, businessId);
+      if (!shift) {
+        res.status(404).json({ error: "No shift is open" });
+        return;
+      }
+
+      res.json(shift);
+    } catch (error) {
+      console.error("Error fetching shift:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ GET: X report — the open shift so far. Nothing is stored, so it can be
+// run as often as needed.
+router.get(
+  "/current/x-report",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const shift = await findOpenShift(prisma, businessId);
+      if (!shift) {
+        res.status(404).json({ error: "No shift is open" });
+        return;
+      }
+
+      res.json({
+        type: "X",
+        ...(await buildShiftReport(prisma, shift, new Date())),
+      });
+    } catch (error) {
+      console.error("Error building X report:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ POST: Close the open shift and issue its Z report
+// Body: { counted: { cash: 5230, card: 12000, upi: 8400 }, note?: "..." }
+router.post(
+  "/current/close",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const shift = await prisma.$transaction((tx) =>
+        closeShift(
+          tx,
+          businessId,
+          req.body.counted,
+          req.body.note,
+          req.businessOwner?.userId ?? null
+        )
+      );
+
+      res.json(shift);
+    } catch (error) {
+      if (error instanceof ShiftError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (isConflict(error)) {
+        res.status(409).json({ error: "The shift was closed from elsewhere" });
+        return;
+      }
+      console.error("Error closing shift:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ GET: Closed shifts, latest Z first
+router.get(
+  "/",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const shifts = await prisma.shift.findMany({
+        where: { businessId, zNumber: { not: null } },
+        omit: { zReport: true },
+        orderBy: { zNumber: "desc" },
+      });
+
+      res.json(shifts);
+    } catch (error) {
+      console.error("Error fetching shifts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ GET: One shift with its stored Z report. Z reports are never rebuilt
+// or edited; later refunds show up on the shift they were made in.
+router.get(
+  "/:id",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        res.status(400).json({ error: "Invalid shift id" });
+        return;
+      }
+
+      const shift = await prisma.shift.findFirst({
+        where: { id, businessId },
+      });
+      if (!shift) {
+        res.status(404).json({ error: "Shift not found" });
+        return;
+      }
+
+      res.json(shift);
+    } catch (error) {
+      console.error("Error fetching shift:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Request, Response } from "express";
 import express from "express";
 import { PrismaClient } from "@prisma/client";
+import { CLOSED_ORDER_STATUSES } from "../utils/orderStatus";
+import { publishTableStatus } from "../utils/orderEvents";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -29,6 +31,8 @@ router.post("/", async (req: Request, res: Response): Promise<void> => {
       },
     });
 
+    await publishTableStatus(prisma, table.businessId, table.tableNumber);
+
     res.json({ success: true, table });
   } catch (error) {
     console.error("Error creating table:", error);
@@ -56,8 +60,9 @@ router.get(
       const activeOrders = await prisma.order.findMany({
         where: {
           businessId: Number(businessId),
+          orderType: "dine-in", // Takeaway/delivery orders never sit at a table
           status: {
-            not: "Completed", // Only consider non-completed orders
+            notIn: CLOSED_ORDER_STATUSES, // Only consider open orders
           },
         },
         select: { tableNumber: true },
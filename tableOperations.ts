@@ -0,0 +1,343 @@
+// src/utils/tableOperations.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  advanceOrder,
+  orderProgress,
+  parseItemStatus,
+  parseOrderStatus,
+  recordOrderCreated,
+  recordOrderNote,
+  StatusActor,
+  syncOrderWithItems,
+  transitionOrder,
+} from "./orderStatus";
+import { repriceOrder } from "./orderReversal";
+import { roundMoney } from "./orderPricing";
+import { formatOrderRef, nextDailyNumber, serviceDateFor } from "./orderRefs";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+export class TableOperationError extends Error {}
+
+// Once a bill exists the check is fixed; move tables before billing
+const MOVABLE_STATUSES = [
+  "Pending",
+  "Accepted",
+  "Preparing",
+  "Ready",
+  "Served",
+];
+
+type OrderWithItems = Prisma.OrderGetPayload<{ include: { items: true } }>;
+
+async function loadMovableOrder(
+  db: PrismaLike,
+  orderId: number,
+  businessId: number
+): Promise<OrderWithItems> {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    include: { items: true },
+  });
+  if (!order || order.businessId !== businessId) {
+    throw new TableOperationError(`Order ${formatOrderRef(orderId)} not found`);
+  }
+  if (order.orderType !== "dine-in") {
+    throw new TableOperationError("Only dine-in orders sit at a table");
+  }
+  const status = parseOrderStatus(order.status);
+  if (!status || !MOVABLE_STATUSES.includes(status)) {
+    throw new TableOperationError(
+      `Order ${formatOrderRef(orderId)} is ${order.status} and can't be moved`
+    );
+  }
+  if (await db.bill.count({ where: { orderId } })) {
+    throw new TableOperationError(
+      `Order ${formatOrderRef(orderId)} has been billed and can't be moved`
+    );
+  }
+  return order;
+}
+
+async function assertTableExists(
+  db: PrismaLike,
+  businessId: number,
+  tableNumber: number
+) {
+  const table = await db.table.findUnique({
+    where: { tableNumber_businessId: { tableNumber, businessId } },
+  });
+  if (!table) {
+    throw new TableOperationError(`Table ${tableNumber} does not exist`);
+  }
+}
+
+const isLive = (item: { status: string }) =>
+  parseItemStatus(item.status) !== "Cancelled";
+
+// Moves the whole order, items untouched, to another table
+export async function transferOrder(
+  db: PrismaLike,
+  businessId: number,
+  orderId: number,
+  toTable: number,
+  actor: StatusActor
+) {
+  const order = await loadMovableOrder(db, orderId, businessId);
+  if (order.tableNumber === toTable) {
+    throw new TableOperationError(`Order is already on table ${toTable}`);
+  }
+  await assertTableExists(db, businessId, toTable);
+
+  await db.order.update({
+    where: { id: orderId },
+    data: { tableNumber: toTable },
+  });
+  await recordOrderNote(db, orderId, actor, {
+    reasonCode: "TABLE_TRANSFER",
+    note: `Moved from table ${order.tableNumber} to table ${toTable}`,
+  });
+
+  return { order, fromTable: order.tableNumber, toTable };
+}
+
+// Folds the open orders of several tables into one check on `toTable`.
+// Items keep their id, status, station and history; the emptied orders
+// end as Merged.
+export async function mergeTables(
+  db: PrismaLike,
+  businessId: number,
+  fromTables: number[],
+  toTable: number,
+  actor: StatusActor
+) {
+  await assertTableExists(db, businessId, toTable);
+
+  const tables = [...new Set([toTable, ...fromTables])];
+  const candidates = await db.order.findMany({
+    where: {
+      businessId,
+      orderType: "dine-in",
+      tableNumber: { in: tables },
+      status: { in: MOVABLE_STATUSES },
+    },
+    include: { items: true },
+    orderBy: { createdAt: "asc" },
+  });
+  if (candidates.length < 2) {
+    throw new TableOperationError("Need at least two open orders to merge");
+  }
+  const billed = await db.bill.findFirst({
+    where: { orderId: { in: candidates.map((order) => order.id) } },
+  });
+  if (billed) {
+    throw new TableOperationError(
+      `Order ${formatOrderRef(billed.orderId)} has been billed and can't be merged`
+    );
+  }
+
+  // Keep the least advanced order so no item is ahead of its check
+  const target = candidates.reduce((least, order) =>
+    orderProgress(parseOrderStatus(order.status)!) <
+    orderProgress(parseOrderStatus(least.status)!)
+      ? order
+      : least
+  );
+  const sources = candidates.filter((order) => order.id !== target.id);
+
+  for (const source of sources) {
+    const itemIds = source.items.map((item) => item.id);
+    await db.orderItem.updateMany({
+      where: { id: { in: itemIds } },
+      data: { orderId: target.id },
+    });
+    await db.orderStatusHistory.updateMany({
+      where: { orderItemId: { in: itemIds } },
+      data: { orderId: target.id },
+    });
+
+    await transitionOrder(db, source.id, "Merged", actor, {
+      reasonCode: "TABLE_MERGE",
+      note: `Merged into ${formatOrderRef(target.id)} on table ${toTable}`,
+    });
+  }
+
+  const sum = (pick: (order: OrderWithItems) => number | null) =>
+    roundMoney(
+      candidates.reduce((total, order) => total + (pick(order) ?? 0), 0)
+    );
+
+  await db.order.update({
+    where: { id: target.id },
+    data: {
+      tableNumber: toTable,
+      customerId:
+        target.customerId ??
+        sources.find((order) => order.customerId)?.customerId,
+      subtotal: sum((order) => order.subtotal),
+      totalAmount: sum((order) => order.totalAmount),
+      packagingCharge: sum((order) => order.packagingCharge),
+      discountAmount: sum((order) => order.discountAmount),
+      pointsRedeemed: sources.reduce(
+        (total, order) => total + order.pointsRedeemed,
+        target.pointsRedeemed
+      ),
+      pointsEarned: sources.reduce(
+        (total, order) => total + order.pointsEarned,
+        target.pointsEarned
+      ),
+    },
+  });
+  await recordOrderNote(db, target.id, actor, {
+    reasonCode: "TABLE_MERGE",
+    note: `Merged ${sources.map((o) => formatOrderRef(o.id)).join(", ")} onto table ${toTable}`,
+  });
+  const status = await syncOrderWithItems(db, target.id, actor);
+
+  return {
+    target,
+    sources,
+    status,
+    tables: [...new Set(candidates.map((o) => o.tableNumber!).concat(toTable))],
+  };
+}
+
+export interface SplitSelection {
+  itemId: number;
+  quantity?: number; // part of the line; defaults to all of it
+}
+
+// Moves some items to a new order on another table. A partial quantity
+// splits the line in two; the new line starts with the same status.
+export async function splitOrder(
+  db: PrismaLike,
+  businessId: number,
+  orderId: number,
+  selection: SplitSelection[],
+  toTable: number,
+  actor: StatusActor
+) {
+  const order = await loadMovableOrder(db, orderId, businessId);
+  await assertTableExists(db, businessId, toTable);
+
+  if (selection.length === 0) {
+    throw new TableOperationError("Select at least one item to move");
+  }
+
+  const moves = selection.map(({ itemId, quantity }) => {
+    const item = order.items.find((i) => i.id === Number(itemId));
+    if (!item || !isLive(item)) {
+      throw new TableOperationError(`Item ${itemId} is not on this order`);
+    }
+    const moveQty = quantity === undefined ? item.quantity : Number(quantity);
+    if (!Number.isInteger(moveQty) || moveQty < 1 || moveQty > item.quantity) {
+      throw new TableOperationError(`Invalid quantity for ${item.name}`);
+    }
+    return { item, quantity: moveQty };
+  });
+  if (new Set(moves.map((m) => m.item.id)).size !== moves.length) {
+    throw new TableOperationError("Each item can only be selected once");
+  }
+
+  const remainingUnits = order.items.filter(isLive).reduce((total, item) => {
+    const moved = moves.find((m) => m.item.id === item.id)?.quantity ?? 0;
+    return total + item.quantity - moved;
+  }, 0);
+  if (remainingUnits === 0) {
+    throw new TableOperationError(
+      "Every item would move, transfer the order instead"
+    );
+  }
+
+  const serviceDate = order.serviceDate ?? serviceDateFor(new Date());
+  const newOrder = await db.order.create({
+    data: {
+      businessId,
+      orderType: "dine-in",
+      tableNumber: toTable,
+      paymentMethod: order.paymentMethod,
+      estimatedTime: order.estimatedTime,
+      status: "Pending",
+      serviceDate,
+      dailyNumber: await nextDailyNumber(db, businessId, serviceDate),
+      subtotal: 0,
+      totalAmount: 0,
+    },
+  });
+  await recordOrderCreated(db, newOrder.id, actor);
+  await recordOrderNote(db, newOrder.id, actor, {
+    reasonCode: "ITEM_SPLIT",
+    note: `Split from ${formatOrderRef(order.id)} on table ${order.tableNumber}`,
+  });
+
+  let movedSubtotal = 0;
+
+  for (const { item, quantity } of moves) {
+    movedSubtotal += item.price * quantity;
+
+    if (quantity === item.quantity) {
+      await db.orderItem.update({
+        where: { id: item.id },
+        data: { orderId: newOrder.id },
+      });
+      await db.orderStatusHistory.updateMany({
+        where: { orderItemId: item.id },
+        data: { orderId: newOrder.id },
+      });
+      continue;
+    }
+
+    await db.orderItem.update({
+      where: { id: item.id },
+      data: { quantity: item.quantity - quantity },
+    });
+    const { id: _id, orderId: _orderId, ...line } = item;
+    const copy = await db.orderItem.create({
+      data: {
+        ...line,
+        modifiers: line.modifiers ?? undefined,
+        orderId: newOrder.id,
+        quantity,
+      },
+    });
+    await db.orderStatusHistory.create({
+      data: {
+        orderId: newOrder.id,
+        orderItemId: copy.id,
+        fromStatus: null,
+        toStatus: copy.status,
+        actorType: actor.type,
+        actorId: actor.id,
+        reasonCode: "ITEM_SPLIT",
+        note: `${quantity} of ${item.quantity} split from item ${item.id}`,
+      },
+    });
+  }
+
+  // The discount goes with the items it was taken off, and both checks are
+  // repriced from their own lines. The guest who ordered no longer pays for
+  // what moved to the other table.
+  const movedDiscount =
+    order.subtotal && order.subtotal > 0
+      ? roundMoney(order.discountAmount * (movedSubtotal / order.subtotal))
+      : 0;
+  await repriceOrder(db, order.id, order.discountAmount - movedDiscount);
+  await repriceOrder(db, newOrder.id, movedDiscount);
+
+  // Catch the new check up with the original, then with its own items
+  const sourceStatus = parseOrderStatus(order.status)!;
+  await advanceOrder(db, newOrder.id, sourceStatus, actor);
+  const newStatus = await syncOrderWithItems(db, newOrder.id, actor);
+  const sourceStatusAfter = await syncOrderWithItems(db, order.id, actor);
+
+  return {
+    order,
+    newOrder: await db.order.findUniqueOrThrow({
+      where: { id: newOrder.id },
+      include: { items: true },
+    }),
+    newStatus,
+    sourceStatus: sourceStatusAfter,
+  };
+}
@@ -0,0 +1,174 @@
+import { Router, Response } from "express";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  authenticateBusinessOwnerJWT,
+  BusinessOwnerRequest,
+} from "../middleware/authenticateJWT";
+import { authorizeRoles } from "../middleware/authorizeRoles";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Validates the editable fields; `partial` allows leaving any of them out
+function taxClassData(body: any, partial: boolean) {
+  const data: { name?: string; rate?: number; hsnCode?: string | null } = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name ?? "").trim();
+    if (!name) return { error: "name is required" };
+    data.name = name;
+  }
+  if (body.rate !== undefined || !partial) {
+    const rate = Number(body.rate);
+    if (body.rate === undefined || isNaN(rate) || rate < 0 || rate > 100) {
+      return { error: "rate must be between 0 and 100" };
+    }
+    data.rate = rate;
+  }
+  if (body.hsnCode !== undefined) {
+    data.hsnCode = body.hsnCode ? String(body.hsnCode).trim() : null;
+  }
+
+  return { data };
+}
+
+const isDuplicateName = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+// ✅ GET: Tax classes of the logged-in business, with what uses them
+router.get(
+  "/",
+  authenticateBusinessOwnerJWT,
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const taxClasses = await prisma.taxClass.findMany({
+        where: { businessId },
+        include: {
+          categories: { select: { id: true, name: true } },
+          _count: { select: { products: true } },
+        },
+        orderBy: { rate: "asc" },
+      });
+
+      res.json(taxClasses);
+    } catch (error) {
+      console.error("Error fetching tax classes:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ POST: Create a tax class
+// Body: { name: "Restaurant service 5%", rate: 5, hsnCode?: "996331" }
+router.post(
+  "/",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      if (!businessId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const parsed = taxClassData(req.body, false);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const taxClass = await prisma.taxClass.create({
+        data: {
+          businessId,
+          name: parsed.data!.name!,
+          rate: parsed.data!.rate!,
+          hsnCode: parsed.data!.hsnCode,
+        },
+      });
+
+      res.status(201).json(taxClass);
+    } catch (error) {
+      if (isDuplicateName(error)) {
+        res.status(409).json({ error: "A tax class with this name exists" });
+        return;
+      }
+      console.error("Error creating tax class:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ PUT: Change a tax class. Bills already made keep the rate they used.
+router.put(
+  "/:id",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const id = parseInt(req.params.id, 10);
+
+      const existing = await prisma.taxClass.findUnique({ where: { id } });
+      if (!existing || existing.businessId !== businessId) {
+        res.status(404).json({ error: "Tax class not found" });
+        return;
+      }
+
+      const parsed = taxClassData(req.body, true);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const taxClass = await prisma.taxClass.update({
+        where: { id },
+        data: parsed.data!,
+      });
+
+      res.json(taxClass);
+    } catch (error) {
+      if (isDuplicateName(error)) {
+        res.status(409).json({ error: "A tax class with this name exists" });
+        return;
+      }
+      console.error("Error updating tax class:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// ✅ DELETE: Remove a tax class; its products and categories fall back to
+// the standard rate
+router.delete(
+  "/:id",
+  authenticateBusinessOwnerJWT,
+  authorizeRoles("Owner", "Manager"),
+  async (req: BusinessOwnerRequest, res: Response): Promise<void> => {
+    try {
+      const businessId = req.businessOwner?.businessId;
+      const id = parseInt(req.params.id, 10);
+
+      const existing = await prisma.taxClass.findUnique({ where: { id } });
+      if (!existing || existing.businessId !== businessId) {
+        res.status(404).json({ error: "Tax class not found" });
+        return;
+      }
+
+      await prisma.taxClass.delete({ where: { id } });
+      res.json({ message: "Tax class deleted" });
+    } catch (error) {
+      console.error("Error deleting tax class:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+export default router;
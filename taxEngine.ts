@@ -0,0 +1,376 @@
+// src/utils/taxEngine.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+
+type PrismaLike = PrismaClient | Prisma.TransactionClient;
+
+// Thrown for bad tax settings or bill options the caller can fix
+export class TaxError extends Error {}
+
+const roundPaise = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export interface TaxRate {
+  taxClassId: number | null;
+  taxClass: string | null;
+  hsnCode: string | null;
+  rate: number; // total GST %, before the CGST/SGST split
+}
+
+export type TaxRateResolver = (product: {
+  taxClassId: number | null;
+  category: string | null;
+}) => TaxRate;
+
+// The business's standard rate (Business.taxRate), for anything without a
+// tax class and for order-level charges
+export const standardTax = (rate: number): TaxRate => ({
+  taxClassId: null,
+  taxClass: null,
+  hsnCode: null,
+  rate,
+});
+
+// A product's own tax class wins, then its category's, then the standard rate
+export async function loadTaxRates(
+  db: PrismaLike,
+  businessId: number
+): Promise<{ rateFor: TaxRateResolver; standard: TaxRate }> {
+  const business = await db.business.findUnique({
+    where: { id: businessId },
+    select: { taxRate: true },
+  });
+
+  const classes = await db.taxClass.findMany({ where: { businessId } });
+  const categories = await db.category.findMany({
+    where: { businessId, taxClassId: { not: null } },
+    select: { name: true, taxClassId: true },
+  });
+
+  const toRate = (taxClass: (typeof classes)[number]): TaxRate => ({
+    taxClassId: taxClass.id,
+    taxClass: taxClass.name,
+    hsnCode: taxClass.hsnCode,
+    rate: taxClass.rate,
+  });
+  const byId = new Map(classes.map((c) => [c.id, toRate(c)]));
+  const byCategory = new Map<string, TaxRate>();
+  for (const category of categories) {
+    const rate = byId.get(category.taxClassId!);
+    const key = category.name.trim().toLowerCase();
+    if (rate && !byCategory.has(key)) byCategory.set(key, rate);
+  }
+
+  const standard = standardTax(business?.taxRate ?? 0);
+
+  return {
+    standard,
+    rateFor: (product) =>
+      (product.taxClassId !== null && byId.get(product.taxClassId)) ||
+      (product.category &&
+        byCategory.get(product.category.trim().toLowerCase())) ||
+      standard,
+  };
+}
+
+// Reads a taxClassId sent with a product or category. undefined leaves it
+// as is, null or "" clears it.
+export async function parseTaxClassId(
+  db: PrismaLike,
+  businessId: number,
+  raw: unknown
+): Promise<number | null | undefined> {
+  if (raw === undefined) return undefined;
+  if (raw === null || raw === "" || raw === "null") return null;
+
+  const id = Number(raw);
+  const taxClass = Number.isInteger(id)
+    ? await db.taxClass.findUnique({ where: { id } })
+    : null;
+  if (!taxClass || taxClass.businessId !== businessId) {
+    throw new TaxError(`Tax class ${raw} not found`);
+  }
+  return id;
+}
+
+export interface TaxableLine {
+  orderItemId: number | null; // null for order-level charges
+  productId: number | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  tax: TaxRate;
+  isCharge?: boolean; // packaging or delivery: no discount, no service charge
+}
+
+export interface TaxOptions {
+  discount: number; // coupon and points, spread over the item lines
+  serviceChargeRate: number; // % of each item line after discount
+  interState: boolean; // IGST instead of CGST + SGST
+}
+
+export interface TaxedLine {
+  orderItemId: number | null;
+  productId: number | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  taxClass: string | null;
+  hsnCode: string | null;
+  gross: number;
+  discount: number;
+  serviceCharge: number;
+  taxableValue: number;
+  rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface TaxBreakdown {
+  lines: TaxedLine[];
+  rates: {
+    rate: number;
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+  }[];
+  subtotal: number;
+  discount: number;
+  serviceCharge: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  taxAmount: number;
+  total: number; // before rounding to the rupee
+  roundOff: number;
+  grandTotal: number;
+}
+
+const sum = <T>(rows: T[], pick: (row: T) => number) =>
+  roundPaise(rows.reduce((total, row) => total + pick(row), 0));
+
+// Works each line out to the paisa: its share of the discount, service
+// charge, taxable value and GST. Service charge is part of the value of the
+// supply, so it is taxed at the line's rate. The bill is then rounded to
+// the nearest rupee and the difference kept as roundOff.
+export function computeTax(
+  lines: TaxableLine[],
+  options: TaxOptions
+): TaxBreakdown {
+  const items = lines.filter((line) => !line.isCharge);
+  const itemGross = sum(items, (line) => line.unitPrice * line.quantity);
+  const discount = roundPaise(Math.min(options.discount, itemGross));
+
+  // The last item takes whatever paise are left so shares add up exactly
+  let discountLeft = discount;
+  const lastItem = items[items.length - 1];
+
+  const taxed = lines.map((line): TaxedLine => {
+    const gross = roundPaise(line.unitPrice * line.quantity);
+
+    let lineDiscount = 0;
+    if (!line.isCharge && itemGross > 0) {
+      lineDiscount =
+        line === lastItem
+          ? discountLeft
+          : Math.min(discountLeft, roundPaise((discount * gross) / itemGross));
+      discountLeft = roundPaise(discountLeft - lineDiscount);
+    }
+
+    const net = roundPaise(gross - lineDiscount);
+    const serviceCharge = line.isCharge
+      ? 0
+      : roundPaise((net * options.serviceChargeRate) / 100);
+    const taxableValue = roundPaise(net + serviceCharge);
+    const tax = (taxableValue * line.tax.rate) / 100;
+
+    const igst = options.interState ? roundPaise(tax) : 0;
+    const cgst = options.interState ? 0 : roundPaise(tax / 2);
+    const sgst = cgst;
+
+    return {
+      orderItemId: line.orderItemId,
+      productId: line.productId,
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      taxClass: line.tax.taxClass,
+      hsnCode: line.tax.hsnCode,
+      gross,
+      discount: lineDiscount,
+      serviceCharge,
+      taxableValue,
+      rate: line.tax.rate,
+      cgst,
+      sgst,
+      igst,
+      total: roundPaise(taxableValue + cgst + sgst + igst),
+    };
+  });
+
+  return summarizeTax(taxed);
+}
+
+// Totals a set of worked-out lines the way computeTax does. `grandTotal`
+// overrides rounding to the nearest rupee, for split bills whose shares
+// were fixed up front; roundOff then takes up the difference.
+export function summarizeTax(
+  lines: TaxedLine[],
+  grandTotal?: number
+): TaxBreakdown {
+  const rates = [...new Set(lines.map((line) => line.rate))]
+    .sort((a, b) => a - b)
+    .map((rate) => {
+      const atRate = lines.filter((line) => line.rate === rate);
+      return {
+        rate,
+        taxableValue: sum(atRate, (line) => line.taxableValue),
+        cgst: sum(atRate, (line) => line.cgst),
+        sgst: sum(atRate, (line) => line.sgst),
+        igst: sum(atRate, (line) => line.igst),
+      };
+    });
+
+  const total = sum(lines, (line) => line.total);
+  const rounded = grandTotal ?? Math.round(total);
+  const cgst = sum(lines, (line) => line.cgst);
+  const sgst = sum(lines, (line) => line.sgst);
+  const igst = sum(lines, (line) => line.igst);
+
+  return {
+    lines,
+    rates,
+    subtotal: sum(lines, (line) => line.gross),
+    discount: sum(lines, (line) => line.discount),
+    serviceCharge: sum(lines, (line) => line.serviceCharge),
+    taxableValue: sum(lines, (line) => line.taxableValue),
+    cgst,
+    sgst,
+    igst,
+    taxAmount: roundPaise(cgst + sgst + igst),
+    total,
+    roundOff: roundPaise(rounded - total),
+    grandTotal: rounded,
+  };
+}
+
+export interface BillTaxOptions {
+  customerGstin?: unknown;
+  placeOfSupply?: unknown; // two-digit GST state code
+  serviceCharge?: unknown; // false to waive it; service charge is voluntary
+}
+
+// Builds the tax breakdown for billing an order from its live items and
+// charges at today's tax settings. The result is meant to be stored on the
+// bill, not recomputed later.
+export async function computeOrderTax(
+  db: PrismaLike,
+  orderId: number,
+  options: BillTaxOptions = {}
+) {
+  const order = await db.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { items: { include: { product: true } }, business: true },
+  });
+  const { rateFor, standard } = await loadTaxRates(db, order.businessId);
+
+  const customerGstin = options.customerGstin
+    ? String(options.customerGstin).trim().toUpperCase()
+    : null;
+  if (customerGstin && !GSTIN_PATTERN.test(customerGstin)) {
+    throw new TaxError("customer_gstin is not a valid GSTIN");
+  }
+
+  // A registered buyer's state is the first two digits of their GSTIN
+  const placeOfSupply = options.placeOfSupply
+    ? String(options.placeOfSupply).trim().padStart(2, "0")
+    : (customerGstin?.slice(0, 2) ?? order.business.stateCode);
+  if (placeOfSupply && !/^\d{2}$/.test(placeOfSupply)) {
+    throw new TaxError("place_of_supply must be a two-digit GST state code");
+  }
+  const interState =
+    !!placeOfSupply &&
+    !!order.business.stateCode &&
+    placeOfSupply !== order.business.stateCode;
+
+  // Service charge only applies to guests served at a table
+  const serviceChargeRate =
+    order.orderType === "dine-in" && options.serviceCharge !== false
+      ? order.business.serviceChargeRate
+      : 0;
+
+  const lines: TaxableLine[] = order.items
+    .filter((item) => item.status !== "Cancelled")
+    .map((item) => ({
+      orderItemId: item.id,
+      productId: item.productId,
+      name: item.variantName ? `${item.name} (${item.variantName})` : item.name,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      tax: rateFor(item.product),
+    }));
+  if (order.packagingCharge > 0) {
+    lines.push({
+      orderItemId: null,
+      productId: null,
+      name: "Packaging charge",
+      quantity: 1,
+      unitPrice: order.packagingCharge,
+      tax: standard,
+      isCharge: true,
+    });
+  }
+  if (order.deliveryFee > 0) {
+    lines.push({
+      orderItemId: null,
+      productId: null,
+      name: "Delivery fee",
+      quantity: 1,
+      unitPrice: order.deliveryFee,
+      tax: standard,
+      isCharge: true,
+    });
+  }
+
+  const breakdown = computeTax(lines, {
+    discount: order.discountAmount,
+    serviceChargeRate,
+    interState,
+  });
+
+  return {
+    order,
+    breakdown,
+    serviceChargeRate,
+    interState,
+    placeOfSupply,
+    customerGstin,
+  };
+}
+
+// Bill columns for a computed breakdown
+export const billTaxData = (
+  result: Awaited<ReturnType<typeof computeOrderTax>>
+) => ({
+  subtotal: result.breakdown.subtotal,
+  discount: result.breakdown.discount,
+  serviceChargeRate: result.serviceChargeRate,
+  serviceCharge: result.breakdown.serviceCharge,
+  taxableValue: result.breakdown.taxableValue,
+  cgst: result.breakdown.cgst,
+  sgst: result.breakdown.sgst,
+  igst: result.breakdown.igst,
+  roundOff: result.breakdown.roundOff,
+  grandTotal: result.breakdown.grandTotal,
+  isInterState: result.interState,
+  placeOfSupply: result.placeOfSupply,
+  customerGstin: result.customerGstin,
+  taxLines: result.breakdown.lines as unknown as Prisma.InputJsonArray,
+  taxRates: result.breakdown.rates as unknown as Prisma.InputJsonArray,
+});